@@ -2,6 +2,7 @@ using Microsoft.AspNetCore.Mvc;
 using Microsoft.Extensions.Logging;
 using Sitas.Edge.Mqtt;
 using ConduitPlcDemo.Messages;
+using ConduitPlcDemo.Services;
 using ConduitPlcDemo.Types;
 
 namespace ConduitPlcDemo.Controllers;
@@ -36,9 +37,9 @@ public class MqttController : ControllerBase
     /// <summary>
     /// Publica un mensaje en un topic MQTT
     /// </summary>
-    /// <param name="topic">Topic donde publicar</param>
+    /// <param name="topic">Topic donde publicar; admite niveles con '/' (p. ej. plc/read-request)</param>
     /// <param name="message">Mensaje a publicar</param>
-    [HttpPost("publish/{topic}")]
+    [HttpPost("publish/{**topic}")]
     public async Task<IActionResult> Publish(string topic, [FromBody] object message, CancellationToken cancellationToken = default)
     {
         try
@@ -59,6 +60,24 @@ public class MqttController : ControllerBase
         }
     }
 
+    /// <summary>
+    /// Tags root del PLC (columna "Name" de Studio 5000) con su descripción y,
+    /// si son arrays, sus dimensiones.
+    /// </summary>
+    private static readonly RootTagInfo[] RootTags =
+    {
+        new("ngpLotCurrent", "Lot in progress"),
+        new("ngpSampleCurrent", "Sample in progress"),
+        new("tagNgpInstrument", "Instrument configuration"),
+        new("tagNgpLot", "Lot history", new[] { 64 }),
+        new("tagNgpLotBlank", "Blank lot template"),
+        new("tagNgpSample", "Sample history", new[] { 100 }),
+        new("tagNgpSampleBlank", "Blank sample template"),
+        new("inDataFtoptix", "FactoryTalk Optix input data")
+    };
+
+    private record RootTagInfo(string Name, string Description, int[]? Dimensions = null);
+
     /// <summary>
     /// Obtiene la lista de tags root disponibles del UdtTypeFactory
     /// </summary>
@@ -67,31 +86,47 @@ public class MqttController : ControllerBase
     {
         try
         {
-            // Obtener solo los tags root (líneas 17-24 del UdtTypeFactory)
-            var rootTags = new[]
+            return Ok(new
             {
-                "ngpLotCurrent",
-                "ngpSampleCurrent",
-                "tagNgpInstrument",
-                "tagNgpLot",
-                "tagNgpLotBlank",
-                "tagNgpSample",
-                "tagNgpSampleBlank",
-                "inDataFtoptix"
-            };
+                tags = RootTags.Select(tag => new
+                {
+                    name = tag.Name,
+                    type = UdtTypeFactory.GetType(tag.Name)?.Name ?? "Unknown",
+                    description = tag.Description,
+                    dimensions = tag.Dimensions
+                }).ToList()
+            });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error getting available tags");
+            return StatusCode(500, new { error = ex.Message });
+        }
+    }
 
+    /// <summary>
+    /// Obtiene los esquemas de los UDT (miembros, tipo Logix, longitud de arrays y
+    /// capacidad de STRING) y el tipo de cada tag root
+    /// </summary>
+    [HttpGet("tags/schemas")]
+    public IActionResult GetUdtSchemas()
+    {
+        try
+        {
             return Ok(new
             {
-                tags = rootTags.Select(tag => new
+                schemas = UdtSchemaBuilder.GetAll(),
+                tags = RootTags.Select(tag => new
                 {
-                    name = tag,
-                    type = UdtTypeFactory.GetType(tag)?.Name ?? "Unknown"
+                    name = tag.Name,
+                    type = UdtTypeFactory.GetType(tag.Name)?.Name ?? "Unknown",
+                    dimensions = tag.Dimensions
                 }).ToList()
             });
         }
         catch (Exception ex)
         {
-            _logger.LogError(ex, "Error getting available tags");
+            _logger.LogError(ex, "Error building UDT schemas");
             return StatusCode(500, new { error = ex.Message });
         }
     }
@@ -115,17 +150,13 @@ public class MqttController : ControllerBase
                 return BadRequest(new { error = "TagName is required" });
             }
 
-            // Generar correlationId si no se proporciona
-            if (string.IsNullOrWhiteSpace(request.CorrelationId))
-            {
-                request.CorrelationId = Guid.NewGuid().ToString();
-            }
-
-            // Publicar en el topic plc/read-request
+            // Publicar en el topic plc/read-request. El correlationId no se inventa:
+            // sin él la lectura es un refresco que nadie espera y, si el valor no
+            // cambió, los clientes en modo delta no reciben nada
             await _mqttConnection.Publisher.PublishAsync("plc/read-request", request, cancellationToken: cancellationToken);
             
             _logger.LogInformation("📤 Tag read request sent via MQTT | Tag: {TagName} | CorrelationId: {CorrelationId}", 
-                request.TagName, request.CorrelationId);
+                request.TagName, request.CorrelationId ?? "N/A");
 
             return Ok(new 
             { 
@@ -234,7 +234,10 @@ public class PlcController : ControllerBase
     }
 
     /// <summary>
-    /// Escribe múltiples tags del PLC
+    /// Escribe múltiples tags del PLC.
+    /// Devuelve el resultado por tag. Si la escritura en bloque falla no se sabe
+    /// cuáles llegó a escribir el driver, así que todos se dan por fallidos con su
+    /// error: repetirlas tag a tag podría escribir dos veces en el PLC.
     /// </summary>
     /// <param name="tagValues">Diccionario de tag names y valores</param>
     [HttpPost("tags/batch-write")]
@@ -247,9 +250,35 @@ public class PlcController : ControllerBase
                 return StatusCode(503, new { error = "PLC not connected", state = _plcConnection.State.ToString() });
             }
 
-            await _plcConnection.WriteTagsAsync(tagValues, cancellationToken);
-            
-            return Ok(new { message = $"{tagValues.Count} tags written successfully" });
+            var values = new Dictionary<string, object>();
+            foreach (var (tagName, rawValue) in tagValues)
+            {
+                if (ToPlcValue(rawValue) is not { } value)
+                {
+                    return BadRequest(new { error = $"Value for tag {tagName} is null" });
+                }
+                values[tagName] = value;
+            }
+
+            try
+            {
+                await _plcConnection.WriteTagsAsync(values, cancellationToken);
+
+                return Ok(new
+                {
+                    message = $"{values.Count} tags written successfully",
+                    results = values.Keys.Select(tagName => new BatchWriteResult(tagName, true, null))
+                });
+            }
+            catch (Exception batchEx) when (batchEx is not OperationCanceledException)
+            {
+                _logger.LogError(batchEx, "Batch write of {Count} tags failed", values.Count);
+                return Ok(new
+                {
+                    message = $"Batch write of {values.Count} tags failed",
+                    results = values.Keys.Select(tagName => new BatchWriteResult(tagName, false, batchEx.Message))
+                });
+            }
         }
         catch (Exception ex)
         {
@@ -257,4 +286,31 @@ public class PlcController : ControllerBase
             return StatusCode(500, new { error = ex.Message });
         }
     }
+
+    /// <summary>
+    /// Resultado de escribir un tag dentro de un batch-write
+    /// </summary>
+    public record BatchWriteResult(string TagName, bool Success, string? Error);
+
+    /// <summary>
+    /// Convierte el JsonElement del body a un valor primitivo para el driver
+    /// (mismo criterio que write-path, conservando decimales).
+    /// </summary>
+    private static object? ToPlcValue(object? value)
+    {
+        if (value is not JsonElement jsonElement)
+        {
+            return value;
+        }
+
+        return jsonElement.ValueKind switch
+        {
+            JsonValueKind.String => jsonElement.GetString(),
+            JsonValueKind.Number => jsonElement.TryGetInt32(out var intValue) ? intValue : jsonElement.GetDouble(),
+            JsonValueKind.True => true,
+            JsonValueKind.False => false,
+            JsonValueKind.Null => null,
+            _ => jsonElement.GetRawText()
+        };
+    }
 }
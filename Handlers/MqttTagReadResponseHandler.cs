@@ -52,20 +52,8 @@ public class MqttTagReadResponseHandler : IMessageSubscriptionHandler<TagReadRes
 
         try
         {
-            var message = new
-            {
-                type = "TagReadResponse",
-                tagName = response.TagName,
-                value = response.Value,
-                quality = response.Quality,
-                timestamp = response.Timestamp,
-                correlationId = response.CorrelationId,
-                hasError = response.HasError,
-                errorMessage = response.ErrorMessage
-            };
-            
-            // Enviar a todos los clientes suscritos al tag
-            await _webSocketManager.SendToTagAsync(response.TagName, message, cancellationToken);
+            // Enviar a todos los clientes suscritos al tag (completo o como delta según su modo)
+            await _webSocketManager.SendTagReadResponseAsync(response, cancellationToken);
         }
         catch (Exception ex)
         {
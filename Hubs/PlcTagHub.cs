@@ -0,0 +1,49 @@
+using System.Text.Json;
+using ConduitPlcDemo.Services;
+using Microsoft.AspNetCore.SignalR;
+
+namespace ConduitPlcDemo.Hubs;
+
+/// <summary>
+/// Hub de SignalR con el mismo protocolo que <c>/ws/plctag</c>, para redes
+/// cuyos proxies rompen el WebSocket crudo (SignalR negocia SSE o long polling).
+/// - cliente -> servidor: método <c>Send</c> con el mensaje (subscribe, resync, ping...).
+/// - servidor -> cliente: método <c>message</c> con cada frame JSON.
+/// </summary>
+public class PlcTagHub : Hub
+{
+    private readonly Services.WebSocketManager _webSocketManager;
+    private readonly TagClientMessageHandler _messages;
+    private readonly IHubContext<PlcTagHub> _hubContext;
+
+    public PlcTagHub(
+        Services.WebSocketManager webSocketManager,
+        TagClientMessageHandler messages,
+        IHubContext<PlcTagHub> hubContext)
+    {
+        _webSocketManager = webSocketManager;
+        _messages = messages;
+        _hubContext = hubContext;
+    }
+
+    public override Task OnConnectedAsync()
+    {
+        // El hub es transitorio: se envía a través de IHubContext, que sobrevive a la invocación
+        var client = _hubContext.Clients.Client(Context.ConnectionId);
+        _webSocketManager.AddConnection(Context.ConnectionId, new SignalRClientConnection(client));
+        Console.WriteLine($"✅ SignalR connection accepted: {Context.ConnectionId}");
+        return base.OnConnectedAsync();
+    }
+
+    public override Task OnDisconnectedAsync(Exception? exception)
+    {
+        _webSocketManager.RemoveSocket(Context.ConnectionId);
+        Console.WriteLine($"🔌 SignalR connection closed: {Context.ConnectionId}");
+        return base.OnDisconnectedAsync(exception);
+    }
+
+    public Task Send(JsonElement message)
+    {
+        return _messages.ProcessMessageAsync(message.GetRawText(), Context.ConnectionId);
+    }
+}
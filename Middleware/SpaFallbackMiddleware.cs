@@ -31,9 +31,11 @@ public class SpaFallbackMiddleware
             return;
         }
 
-        // Si es una ruta de API o WebSocket, NO hacer nada (dejar que pase al siguiente middleware)
+        // Si es una ruta de API, WebSocket, SignalR o SSE, NO hacer nada (dejar que pase al siguiente middleware)
         if (context.Request.Path.StartsWithSegments("/api") || 
             context.Request.Path.StartsWithSegments("/ws") ||
+            context.Request.Path.StartsWithSegments("/hubs") ||
+            context.Request.Path.StartsWithSegments("/sse") ||
             context.Request.Path.StartsWithSegments("/swagger"))
         {
             await _next(context);
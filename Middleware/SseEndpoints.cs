@@ -0,0 +1,78 @@
+using System.Text;
+using ConduitPlcDemo.Services;
+using Microsoft.AspNetCore.Http.Features;
+
+namespace ConduitPlcDemo.Middleware;
+
+/// <summary>
+/// Transporte Server-Sent Events con el mismo protocolo que <c>/ws/plctag</c>:
+/// - <c>GET {pattern}?connectionId={id}</c>: stream <c>text/event-stream</c> con un evento por frame.
+/// - <c>POST {pattern}/{id}</c>: un mensaje del cliente (subscribe, resync, ping...).
+/// El id lo genera el cliente al abrir el stream.
+/// </summary>
+public static class SseEndpoints
+{
+    public static IEndpointRouteBuilder MapPlcTagSse(this IEndpointRouteBuilder endpoints, string pattern)
+    {
+        endpoints.MapGet(pattern, StreamAsync);
+        endpoints.MapPost(pattern + "/{connectionId}", ReceiveAsync);
+        return endpoints;
+    }
+
+    private static async Task StreamAsync(HttpContext context, Services.WebSocketManager webSocketManager)
+    {
+        var connectionId = context.Request.Query["connectionId"].ToString();
+        if (string.IsNullOrEmpty(connectionId))
+        {
+            context.Response.StatusCode = StatusCodes.Status400BadRequest;
+            return;
+        }
+        if (webSocketManager.HasConnection(connectionId))
+        {
+            context.Response.StatusCode = StatusCodes.Status409Conflict;
+            return;
+        }
+
+        context.Response.Headers.ContentType = "text/event-stream";
+        context.Response.Headers.CacheControl = "no-cache";
+        // Cada evento debe salir al momento, no cuando se llene un buffer
+        context.Features.Get<IHttpResponseBodyFeature>()?.DisableBuffering();
+
+        // Registrar antes de enviar las cabeceras: el flush dispara el onopen de
+        // EventSource y el primer POST del cliente ya tiene que encontrar la conexión
+        var connection = new SseClientConnection(context.Response, context.RequestAborted);
+        webSocketManager.AddConnection(connectionId, connection);
+        Console.WriteLine($"✅ SSE connection accepted: {connectionId}");
+        try
+        {
+            await connection.StartAsync(context.RequestAborted);
+            await Task.Delay(Timeout.Infinite, context.RequestAborted);
+        }
+        catch (OperationCanceledException)
+        {
+            // El cliente cerró el stream
+        }
+        finally
+        {
+            webSocketManager.RemoveSocket(connectionId);
+            Console.WriteLine($"🔌 SSE connection closed: {connectionId}");
+        }
+    }
+
+    private static async Task<IResult> ReceiveAsync(
+        string connectionId,
+        HttpRequest request,
+        Services.WebSocketManager webSocketManager,
+        TagClientMessageHandler messages)
+    {
+        if (!webSocketManager.HasConnection(connectionId))
+        {
+            return Results.NotFound();
+        }
+
+        using var reader = new StreamReader(request.Body, Encoding.UTF8);
+        var message = await reader.ReadToEndAsync();
+        await messages.ProcessMessageAsync(message, connectionId);
+        return Results.Accepted();
+    }
+}
@@ -1,6 +1,5 @@
 using System.Net.WebSockets;
 using System.Text;
-using System.Text.Json;
 using ConduitPlcDemo.Services;
 using Microsoft.Extensions.Logging;
 
@@ -13,15 +12,18 @@ public class WebSocketMiddleware
 {
     private readonly RequestDelegate _next;
     private readonly Services.WebSocketManager _webSocketManager;
+    private readonly TagClientMessageHandler _messages;
     private readonly ILogger<WebSocketMiddleware> _logger;
 
     public WebSocketMiddleware(
         RequestDelegate next,
         Services.WebSocketManager webSocketManager,
+        TagClientMessageHandler messages,
         ILogger<WebSocketMiddleware> logger)
     {
         _next = next;
         _webSocketManager = webSocketManager;
+        _messages = messages;
         _logger = logger;
         Console.WriteLine($"🔧 WebSocketMiddleware constructor called. WebSocketManager instance ID: {_webSocketManager.GetHashCode()}");
     }
@@ -86,70 +88,8 @@ public class WebSocketMiddleware
             if (result.MessageType == WebSocketMessageType.Text)
             {
                 var message = Encoding.UTF8.GetString(buffer, 0, result.Count);
-                await ProcessMessageAsync(message, connectionId);
+                await _messages.ProcessMessageAsync(message, connectionId);
             }
         }
     }
-
-    private async Task ProcessMessageAsync(string message, string connectionId)
-    {
-        try
-        {
-            using var doc = JsonDocument.Parse(message);
-            var root = doc.RootElement;
-
-            if (root.TryGetProperty("type", out var typeElement))
-            {
-                var type = typeElement.GetString();
-                
-                switch (type)
-                {
-                    case "subscribe":
-                        if (root.TryGetProperty("tagName", out var tagNameElement))
-                        {
-                            var tagName = tagNameElement.GetString();
-                            if (!string.IsNullOrEmpty(tagName))
-                            {
-                                Console.WriteLine($"📥 WebSocket subscribe request received: ConnectionId={connectionId}, TagName={tagName}");
-                                _webSocketManager.SubscribeToTag(connectionId, tagName);
-                                _logger.LogInformation("✅ WebSocket {ConnectionId} subscribed to tag '{TagName}'", connectionId, tagName);
-                            }
-                            else
-                            {
-                                Console.WriteLine($"⚠️ Subscribe request received but tagName is null or empty");
-                            }
-                        }
-                        else
-                        {
-                            Console.WriteLine($"⚠️ Subscribe request received but no tagName property found");
-                        }
-                        break;
-
-                    case "unsubscribe":
-                        if (root.TryGetProperty("tagName", out var unsubscribeTagElement))
-                        {
-                            var unsubscribeTag = unsubscribeTagElement.GetString();
-                            if (!string.IsNullOrEmpty(unsubscribeTag))
-                            {
-                                _webSocketManager.UnsubscribeFromTag(connectionId, unsubscribeTag);
-                                _logger.LogInformation("❌ WebSocket {ConnectionId} unsubscribed from tag '{TagName}'", connectionId, unsubscribeTag);
-                            }
-                        }
-                        break;
-
-                    case "ping":
-                        // Responder con pong para mantener la conexión viva
-                        var pongResponse = JsonSerializer.Serialize(new { type = "pong" });
-                        var pongBytes = Encoding.UTF8.GetBytes(pongResponse);
-                        // No podemos enviar aquí directamente, pero el cliente puede verificar la conexión
-                        break;
-                }
-            }
-        }
-        catch (Exception ex)
-        {
-            _logger.LogWarning(ex, "⚠️ Error processing WebSocket message from {ConnectionId}: {Message}", connectionId, message);
-        }
-    }
 }
-
@@ -7,6 +7,7 @@ using Sitas.Edge.Core;
 using Sitas.Edge.EdgePlcDriver;
 using Sitas.Edge.Mqtt;
 using ConduitPlcDemo.Services;
+using ConduitPlcDemo.Middleware;
 using Sitas.Edge.Core.Events;
 using ConduitPlcDemo.Handlers.Events;
 using Microsoft.AspNetCore.Routing;
@@ -34,6 +35,7 @@ class Program
         builder.Services.AddControllers();
         builder.Services.AddEndpointsApiExplorer();
         builder.Services.AddSwaggerGen();
+        builder.Services.AddSignalR();
         
         // Deshabilitar sesiones y cookies para evitar problemas de 403
         // NO agregar AddSession, AddAuthentication, AddAuthorization
@@ -77,6 +79,7 @@ class Program
         
         // Registrar como instancia específica para garantizar que sea la misma en todos lados
         builder.Services.AddSingleton(webSocketManagerInstance);
+        builder.Services.AddSingleton<Services.TagClientMessageHandler>();
         
         // CRÍTICO: Reconstruir el DIContainerBuilder DESPUÉS de registrar el WebSocketManager
         // para que el ServiceProvider de Sitas.Edge tenga acceso a la misma instancia
@@ -182,6 +185,9 @@ class Program
         var mqttConnection = conduit.GetConnection<IMqttConnection>();
         builder.Services.AddSingleton(mqttConnection);
 
+        // Modo push: lee los tags suscritos cada TagPush:IntervalMs y envía los cambios
+        builder.Services.AddHostedService<Services.TagPushService>();
+
         builder.Services.AddSingleton(conduit);
 
         // ════════════════════════════════════════════════════════════════
@@ -303,6 +309,10 @@ class Program
         {
             builder.UseMiddleware<Middleware.WebSocketMiddleware>();
         });
+
+        // Transportes alternativos para proxies que rompen el WebSocket crudo
+        app.MapHub<Hubs.PlcTagHub>("/hubs/plctag");
+        app.MapPlcTagSse("/sse/plctag");
         
         // Mapear endpoints de API (sin autorización - acceso público)
         app.MapControllers();
@@ -310,9 +320,11 @@ class Program
         // Middleware de fallback ANTES de UseStaticFiles (para cambiar path a /index.html si es necesario)
         app.Use(async (context, next) =>
         {
-            // Si es una ruta de API, WebSocket o Swagger, NO hacer nada
+            // Si es una ruta de API, WebSocket, SignalR, SSE o Swagger, NO hacer nada
             if (context.Request.Path.StartsWithSegments("/api") || 
                 context.Request.Path.StartsWithSegments("/ws") ||
+                context.Request.Path.StartsWithSegments("/hubs") ||
+                context.Request.Path.StartsWithSegments("/sse") ||
                 context.Request.Path.StartsWithSegments("/swagger"))
             {
                 await next();
@@ -0,0 +1,93 @@
+using System.Text.Json.Nodes;
+
+namespace ConduitPlcDemo.Services;
+
+/// <summary>
+/// Genera un JSON Patch (RFC 6902) con las diferencias entre dos valores de un tag.
+/// Solo emite add/remove/replace; los arrays se comparan por índice.
+/// </summary>
+public static class JsonPatchBuilder
+{
+    public static List<Dictionary<string, object?>> Diff(JsonNode? from, JsonNode? to)
+    {
+        var operations = new List<Dictionary<string, object?>>();
+        DiffNode(from, to, string.Empty, operations);
+        return operations;
+    }
+
+    private static void DiffNode(JsonNode? from, JsonNode? to, string path, List<Dictionary<string, object?>> operations)
+    {
+        if (JsonNode.DeepEquals(from, to))
+        {
+            return;
+        }
+
+        if (from is JsonObject fromObject && to is JsonObject toObject)
+        {
+            foreach (var (key, fromValue) in fromObject)
+            {
+                var childPath = $"{path}/{Escape(key)}";
+                if (toObject.TryGetPropertyValue(key, out var toValue))
+                {
+                    DiffNode(fromValue, toValue, childPath, operations);
+                }
+                else
+                {
+                    operations.Add(Operation("remove", childPath));
+                }
+            }
+
+            foreach (var (key, toValue) in toObject)
+            {
+                if (!fromObject.ContainsKey(key))
+                {
+                    operations.Add(Operation("add", $"{path}/{Escape(key)}", toValue));
+                }
+            }
+            return;
+        }
+
+        if (from is JsonArray fromArray && to is JsonArray toArray)
+        {
+            var common = Math.Min(fromArray.Count, toArray.Count);
+            for (var i = 0; i < common; i++)
+            {
+                DiffNode(fromArray[i], toArray[i], $"{path}/{i}", operations);
+            }
+
+            // Quitar desde el final para que los índices previos sigan siendo válidos
+            for (var i = fromArray.Count - 1; i >= common; i--)
+            {
+                operations.Add(Operation("remove", $"{path}/{i}"));
+            }
+
+            for (var i = common; i < toArray.Count; i++)
+            {
+                operations.Add(Operation("add", $"{path}/-", toArray[i]));
+            }
+            return;
+        }
+
+        operations.Add(Operation("replace", path, to));
+    }
+
+    private static Dictionary<string, object?> Operation(string op, string path)
+    {
+        return new Dictionary<string, object?> { ["op"] = op, ["path"] = path };
+    }
+
+    private static Dictionary<string, object?> Operation(string op, string path, JsonNode? value)
+    {
+        var operation = Operation(op, path);
+        operation["value"] = value?.DeepClone();
+        return operation;
+    }
+
+    /// <summary>
+    /// Escapa un nombre de propiedad como token de JSON Pointer (RFC 6901).
+    /// </summary>
+    private static string Escape(string token)
+    {
+        return token.Replace("~", "~0").Replace("/", "~1");
+    }
+}
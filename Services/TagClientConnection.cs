@@ -0,0 +1,127 @@
+using System.Net.WebSockets;
+using System.Text;
+using Microsoft.AspNetCore.SignalR;
+
+namespace ConduitPlcDemo.Services;
+
+/// <summary>
+/// Una conexión de cliente del SPA, sea cual sea el transporte. Cada envío es
+/// un frame JSON completo (TagReadResponse, TagSnapshot, pong, error...).
+/// </summary>
+public interface ITagClientConnection
+{
+    bool IsOpen { get; }
+
+    Task SendAsync(byte[] utf8Json, CancellationToken cancellationToken);
+}
+
+/// <summary>
+/// Conexión por WebSocket crudo (<c>/ws/plctag</c>).
+/// </summary>
+public sealed class WebSocketClientConnection : ITagClientConnection
+{
+    private readonly WebSocket _socket;
+    // WebSocket no admite dos SendAsync a la vez
+    private readonly SemaphoreSlim _sendLock = new(1, 1);
+
+    public WebSocketClientConnection(WebSocket socket)
+    {
+        _socket = socket;
+    }
+
+    public bool IsOpen => _socket.State == WebSocketState.Open;
+
+    public async Task SendAsync(byte[] utf8Json, CancellationToken cancellationToken)
+    {
+        await _sendLock.WaitAsync(cancellationToken);
+        try
+        {
+            await _socket.SendAsync(
+                new ArraySegment<byte>(utf8Json),
+                WebSocketMessageType.Text,
+                endOfMessage: true,
+                cancellationToken);
+        }
+        finally
+        {
+            _sendLock.Release();
+        }
+    }
+}
+
+/// <summary>
+/// Conexión por el hub de SignalR (<c>/hubs/plctag</c>): cada frame se envía
+/// como texto en el método <c>message</c>. El hub la quita del manager al desconectarse.
+/// </summary>
+public sealed class SignalRClientConnection : ITagClientConnection
+{
+    private readonly IClientProxy _client;
+
+    public SignalRClientConnection(IClientProxy client)
+    {
+        _client = client;
+    }
+
+    public bool IsOpen => true;
+
+    public Task SendAsync(byte[] utf8Json, CancellationToken cancellationToken)
+    {
+        return _client.SendAsync("message", Encoding.UTF8.GetString(utf8Json), cancellationToken);
+    }
+}
+
+/// <summary>
+/// Conexión por Server-Sent Events (<c>/sse/plctag</c>): cada frame es un
+/// evento <c>message</c> del stream abierto por el cliente.
+/// </summary>
+public sealed class SseClientConnection : ITagClientConnection
+{
+    private static readonly byte[] EventStart = Encoding.UTF8.GetBytes("data: ");
+    private static readonly byte[] EventEnd = Encoding.UTF8.GetBytes("\n\n");
+
+    private readonly HttpResponse _response;
+    private readonly CancellationToken _requestAborted;
+    private readonly SemaphoreSlim _sendLock = new(1, 1);
+
+    public SseClientConnection(HttpResponse response, CancellationToken requestAborted)
+    {
+        _response = response;
+        _requestAborted = requestAborted;
+    }
+
+    public bool IsOpen => !_requestAborted.IsCancellationRequested;
+
+    /// <summary>
+    /// Envía las cabeceras del stream, lo que dispara el onopen de EventSource.
+    /// Comparte el lock con los eventos porque la conexión ya puede recibir broadcasts.
+    /// </summary>
+    public async Task StartAsync(CancellationToken cancellationToken)
+    {
+        await _sendLock.WaitAsync(cancellationToken);
+        try
+        {
+            await _response.Body.FlushAsync(cancellationToken);
+        }
+        finally
+        {
+            _sendLock.Release();
+        }
+    }
+
+    public async Task SendAsync(byte[] utf8Json, CancellationToken cancellationToken)
+    {
+        await _sendLock.WaitAsync(cancellationToken);
+        try
+        {
+            // El JSON va sin indentar, así que cabe en una sola línea "data:"
+            await _response.Body.WriteAsync(EventStart, cancellationToken);
+            await _response.Body.WriteAsync(utf8Json, cancellationToken);
+            await _response.Body.WriteAsync(EventEnd, cancellationToken);
+            await _response.Body.FlushAsync(cancellationToken);
+        }
+        finally
+        {
+            _sendLock.Release();
+        }
+    }
+}
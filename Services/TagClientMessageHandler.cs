@@ -0,0 +1,146 @@
+using System.Text.Json;
+using Microsoft.Extensions.Logging;
+
+namespace ConduitPlcDemo.Services;
+
+/// <summary>
+/// Protocolo cliente -> servidor (subscribe, resync, unsubscribe, ping) común a
+/// todos los transportes: el WebSocket crudo, el hub de SignalR y el POST de SSE
+/// le pasan cada mensaje JSON con el id de su conexión.
+/// </summary>
+public class TagClientMessageHandler
+{
+    private readonly WebSocketManager _webSocketManager;
+    private readonly ILogger<TagClientMessageHandler> _logger;
+
+    public TagClientMessageHandler(WebSocketManager webSocketManager, ILogger<TagClientMessageHandler> logger)
+    {
+        _webSocketManager = webSocketManager;
+        _logger = logger;
+    }
+
+    public async Task ProcessMessageAsync(string message, string connectionId)
+    {
+        JsonDocument doc;
+        try
+        {
+            doc = JsonDocument.Parse(message);
+        }
+        catch (JsonException ex)
+        {
+            _logger.LogWarning(ex, "⚠️ Invalid JSON received from {ConnectionId}: {Message}", connectionId, message);
+            await SendErrorAsync(connectionId, "invalid-json", "Message is not valid JSON");
+            return;
+        }
+
+        using (doc)
+        {
+            try
+            {
+                var root = doc.RootElement;
+
+                if (root.ValueKind != JsonValueKind.Object
+                    || !root.TryGetProperty("type", out var typeElement)
+                    || typeElement.ValueKind != JsonValueKind.String)
+                {
+                    await SendErrorAsync(connectionId, "missing-type", "Message has no \"type\" field");
+                    return;
+                }
+
+                var type = typeElement.GetString();
+
+                switch (type)
+                {
+                    case "subscribe":
+                    {
+                        var tagName = GetTagName(root);
+                        if (string.IsNullOrEmpty(tagName))
+                        {
+                            Console.WriteLine($"⚠️ Subscribe request received but tagName is missing or empty");
+                            await SendErrorAsync(connectionId, "missing-tag-name", "subscribe requires a tagName");
+                            break;
+                        }
+
+                        // "mode": "delta" -> TagSnapshot + TagDelta (JSON Patch); cualquier otro valor -> UDT completo
+                        var mode = root.TryGetProperty("mode", out var modeElement)
+                            && modeElement.ValueKind == JsonValueKind.String
+                            && modeElement.GetString() == "delta"
+                                ? "delta"
+                                : "full";
+
+                        Console.WriteLine($"📥 Subscribe request received: ConnectionId={connectionId}, TagName={tagName}, Mode={mode}");
+                        _webSocketManager.SubscribeToTag(connectionId, tagName, mode == "delta");
+                        _logger.LogInformation("✅ Connection {ConnectionId} subscribed to tag '{TagName}' ({Mode})", connectionId, tagName, mode);
+                        await _webSocketManager.SendToConnectionAsync(connectionId, new { type = "subscribed", tagName, mode });
+                        break;
+                    }
+
+                    case "resync":
+                    {
+                        var tagName = GetTagName(root);
+                        if (string.IsNullOrEmpty(tagName))
+                        {
+                            await SendErrorAsync(connectionId, "missing-tag-name", "resync requires a tagName");
+                            break;
+                        }
+
+                        if (!_webSocketManager.RequestResync(connectionId, tagName))
+                        {
+                            await SendErrorAsync(connectionId, "not-delta-subscribed", $"Not subscribed to '{tagName}' in delta mode", tagName);
+                        }
+                        break;
+                    }
+
+                    case "unsubscribe":
+                    {
+                        var tagName = GetTagName(root);
+                        if (string.IsNullOrEmpty(tagName))
+                        {
+                            await SendErrorAsync(connectionId, "missing-tag-name", "unsubscribe requires a tagName");
+                            break;
+                        }
+
+                        _webSocketManager.UnsubscribeFromTag(connectionId, tagName);
+                        _logger.LogInformation("❌ Connection {ConnectionId} unsubscribed from tag '{TagName}'", connectionId, tagName);
+                        await _webSocketManager.SendToConnectionAsync(connectionId, new { type = "unsubscribed", tagName });
+                        break;
+                    }
+
+                    case "ping":
+                        // Responder con pong (eco del timestamp del cliente para medir latencia)
+                        long? timestamp = root.TryGetProperty("timestamp", out var timestampElement)
+                            && timestampElement.ValueKind == JsonValueKind.Number
+                            && timestampElement.TryGetInt64(out var clientTimestamp)
+                                ? clientTimestamp
+                                : null;
+                        await _webSocketManager.SendToConnectionAsync(connectionId, new { type = "pong", timestamp });
+                        break;
+
+                    default:
+                        _logger.LogWarning("⚠️ Unknown client message type '{Type}' from {ConnectionId}", type, connectionId);
+                        await SendErrorAsync(connectionId, "unknown-type", $"Unknown message type '{type}'");
+                        break;
+                }
+            }
+            catch (Exception ex)
+            {
+                _logger.LogWarning(ex, "⚠️ Error processing client message from {ConnectionId}: {Message}", connectionId, message);
+            }
+        }
+    }
+
+    private static string? GetTagName(JsonElement root)
+    {
+        return root.TryGetProperty("tagName", out var tagNameElement) && tagNameElement.ValueKind == JsonValueKind.String
+            ? tagNameElement.GetString()
+            : null;
+    }
+
+    /// <summary>
+    /// Envía un mensaje { type: "error" } a la conexión que originó el problema.
+    /// </summary>
+    private Task SendErrorAsync(string connectionId, string code, string errorMessage, string? tagName = null)
+    {
+        return _webSocketManager.SendToConnectionAsync(connectionId, new { type = "error", code, message = errorMessage, tagName });
+    }
+}
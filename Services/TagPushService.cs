@@ -0,0 +1,72 @@
+using ConduitPlcDemo.Messages;
+using Microsoft.Extensions.Logging;
+using Sitas.Edge.Mqtt;
+
+namespace ConduitPlcDemo.Services;
+
+/// <summary>
+/// Modo push: los clientes reciben los cambios de sus tags sin tener que sondear.
+/// Cada <c>TagPush:IntervalMs</c> publica una petición de lectura sin correlationId por
+/// cada tag suscrito; la respuesta vuelve por MqttTagReadResponseHandler como cualquier
+/// otra y a los suscriptores en modo delta solo les llega si el valor cambió.
+/// Con un intervalo de 0 el servidor solo contesta lecturas.
+/// </summary>
+public class TagPushService : BackgroundService
+{
+    private const int DefaultIntervalMs = 1000;
+
+    private readonly WebSocketManager _webSocketManager;
+    private readonly IMqttConnection _mqtt;
+    private readonly ILogger<TagPushService> _logger;
+    private readonly int _intervalMs;
+
+    public TagPushService(
+        WebSocketManager webSocketManager,
+        IMqttConnection mqtt,
+        IConfiguration configuration,
+        ILogger<TagPushService> logger)
+    {
+        _webSocketManager = webSocketManager;
+        _mqtt = mqtt;
+        _logger = logger;
+        _intervalMs = configuration.GetValue("TagPush:IntervalMs", DefaultIntervalMs);
+    }
+
+    protected override async Task ExecuteAsync(CancellationToken stoppingToken)
+    {
+        if (_intervalMs <= 0)
+        {
+            _logger.LogInformation("⏸️ Tag push disabled (TagPush:IntervalMs = {IntervalMs})", _intervalMs);
+            return;
+        }
+
+        _logger.LogInformation("📡 Pushing changes of subscribed tags every {IntervalMs} ms", _intervalMs);
+        using var timer = new PeriodicTimer(TimeSpan.FromMilliseconds(_intervalMs));
+        try
+        {
+            while (await timer.WaitForNextTickAsync(stoppingToken))
+            {
+                if (!_mqtt.IsConnected)
+                {
+                    continue;
+                }
+
+                foreach (var tagName in _webSocketManager.GetSubscribedTags())
+                {
+                    try
+                    {
+                        await _mqtt.Publisher.PublishAsync("plc/read-request", new TagReadRequest { TagName = tagName }, cancellationToken: stoppingToken);
+                    }
+                    catch (Exception ex) when (ex is not OperationCanceledException)
+                    {
+                        _logger.LogWarning(ex, "⚠️ Could not request push read of tag '{TagName}'", tagName);
+                    }
+                }
+            }
+        }
+        catch (OperationCanceledException)
+        {
+            // Apagado del host
+        }
+    }
+}
@@ -0,0 +1,96 @@
+using System.Reflection;
+using System.Text.Json;
+using ConduitPlcDemo.Types;
+
+namespace ConduitPlcDemo.Services;
+
+/// <summary>
+/// Describe los UDT registrados en <see cref="UdtTypeFactory"/> a partir de las clases de Types/:
+/// miembros con su tipo Logix, longitud de arrays y capacidad de los STRING.
+/// Los nombres de miembro son los del JSON que recibe el cliente (propiedades en camelCase).
+/// </summary>
+public static class UdtSchemaBuilder
+{
+    private static readonly Dictionary<Type, string> AtomicTypes = new()
+    {
+        { typeof(bool), "BOOL" },
+        { typeof(sbyte), "SINT" },
+        { typeof(byte), "USINT" },
+        { typeof(short), "INT" },
+        { typeof(ushort), "UINT" },
+        { typeof(int), "DINT" },
+        { typeof(uint), "UDINT" },
+        { typeof(long), "LINT" },
+        { typeof(ulong), "ULINT" },
+        { typeof(float), "REAL" },
+        { typeof(double), "LREAL" }
+    };
+
+    // Los tipos no cambian en tiempo de ejecución: se reflejan una sola vez
+    private static readonly Lazy<IReadOnlyList<UdtSchema>> Schemas = new(BuildAll);
+
+    public static IReadOnlyList<UdtSchema> GetAll() => Schemas.Value;
+
+    private static IReadOnlyList<UdtSchema> BuildAll()
+    {
+        var schemas = new Dictionary<string, UdtSchema>();
+        foreach (var type in UdtTypeFactory.GetAllRegisteredTypes().Distinct())
+        {
+            Collect(type, schemas);
+        }
+        return schemas.Values.OrderBy(schema => schema.Name, StringComparer.Ordinal).ToList();
+    }
+
+    private static void Collect(Type type, Dictionary<string, UdtSchema> schemas)
+    {
+        // Solo se describen las clases de Types/; STRING y los atómicos no son UDT
+        if (type.Namespace != typeof(UdtTypeFactory).Namespace || type == typeof(LOGIX_STRING) || schemas.ContainsKey(type.Name))
+        {
+            return;
+        }
+
+        var members = new List<UdtMemberSchema>();
+        schemas[type.Name] = new UdtSchema(type.Name, members);
+
+        // Las longitudes de array y la capacidad de los STRING solo se conocen en una instancia
+        var instance = Activator.CreateInstance(type);
+
+        foreach (var property in type.GetProperties(BindingFlags.Public | BindingFlags.Instance))
+        {
+            if (!property.CanRead || property.GetIndexParameters().Length > 0)
+            {
+                continue;
+            }
+
+            var value = property.GetValue(instance);
+            var isArray = property.PropertyType.IsArray;
+            var elementType = isArray ? property.PropertyType.GetElementType()! : property.PropertyType;
+            var sample = isArray ? (value as Array)?.Cast<object?>().FirstOrDefault() : value;
+
+            members.Add(new UdtMemberSchema(
+                JsonNamingPolicy.CamelCase.ConvertName(property.Name),
+                DataTypeName(elementType),
+                isArray ? (value as Array)?.Length ?? 0 : null,
+                elementType == typeof(LOGIX_STRING) ? (sample as LOGIX_STRING)?.stringData.Length ?? 82 : null));
+
+            Collect(elementType, schemas);
+        }
+    }
+
+    private static string DataTypeName(Type type)
+    {
+        if (type == typeof(LOGIX_STRING))
+        {
+            return "STRING";
+        }
+        return AtomicTypes.TryGetValue(type, out var atomic) ? atomic : type.Name;
+    }
+}
+
+/// <summary>
+/// Estructura de un UDT. <see cref="UdtMemberSchema.DataType"/> es un tipo atómico Logix
+/// (DINT, REAL, STRING...) o el nombre de otro UDT del mismo catálogo.
+/// </summary>
+public record UdtSchema(string Name, IReadOnlyList<UdtMemberSchema> Members);
+
+public record UdtMemberSchema(string Name, string DataType, int? ArrayLength = null, int? StringCapacity = null);
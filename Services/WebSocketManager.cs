@@ -2,17 +2,20 @@ using System.Collections.Concurrent;
 using System.Net.WebSockets;
 using System.Text;
 using System.Text.Json;
+using System.Text.Json.Nodes;
+using ConduitPlcDemo.Messages;
 using Microsoft.Extensions.Logging;
 
 namespace ConduitPlcDemo.Services;
 
 /// <summary>
-/// Gestiona las conexiones WebSocket activas y permite enviar mensajes a clientes específicos o a todos.
+/// Gestiona las conexiones activas (WebSocket, SignalR o SSE) y permite enviar mensajes a clientes específicos o a todos.
 /// </summary>
 public class WebSocketManager
 {
-    private readonly ConcurrentDictionary<string, WebSocket> _sockets = new();
+    private readonly ConcurrentDictionary<string, ITagClientConnection> _sockets = new();
     private readonly ConcurrentDictionary<string, HashSet<string>> _tagSubscriptions = new(); // tagName -> connectionIds
+    private readonly ConcurrentDictionary<string, TagDeltaState> _deltaStates = new(); // "connectionId|tagName" -> línea base
     private readonly ILogger<WebSocketManager> _logger;
 
     public WebSocketManager(ILogger<WebSocketManager> logger)
@@ -27,14 +30,24 @@ public class WebSocketManager
     public void AddSocket(string connectionId, WebSocket socket)
     {
         Console.WriteLine($"🔌 AddSocket called: ConnectionId={connectionId}, SocketState={socket.State}");
-        _sockets.TryAdd(connectionId, socket);
-        Console.WriteLine($"✅ WebSocket connection added: {connectionId} (Total sockets: {_sockets.Count})");
+        AddConnection(connectionId, new WebSocketClientConnection(socket));
+    }
+
+    /// <summary>
+    /// Agrega una conexión de cualquier transporte (hub de SignalR, stream SSE...).
+    /// </summary>
+    public void AddConnection(string connectionId, ITagClientConnection connection)
+    {
+        _sockets.TryAdd(connectionId, connection);
+        Console.WriteLine($"✅ Connection added: {connectionId} ({connection.GetType().Name}, Total sockets: {_sockets.Count})");
         Console.WriteLine($"   Socket keys: {string.Join(", ", _sockets.Keys)}");
-        _logger.LogInformation("✅ WebSocket connection added: {ConnectionId} (Total: {Count})", connectionId, _sockets.Count);
+        _logger.LogInformation("✅ Connection added: {ConnectionId} (Total: {Count})", connectionId, _sockets.Count);
     }
 
+    public bool HasConnection(string connectionId) => _sockets.ContainsKey(connectionId);
+
     /// <summary>
-    /// Remueve una conexión WebSocket del manager.
+    /// Remueve una conexión del manager.
     /// </summary>
     public void RemoveSocket(string connectionId)
     {
@@ -49,6 +62,11 @@ public class WebSocketManager
             {
                 tagSubscriptions.Remove(connectionId);
             }
+
+            foreach (var key in _deltaStates.Keys.Where(key => key.StartsWith($"{connectionId}|")))
+            {
+                _deltaStates.TryRemove(key, out _);
+            }
         }
         else
         {
@@ -58,8 +76,10 @@ public class WebSocketManager
 
     /// <summary>
     /// Suscribe una conexión a un tag específico.
+    /// Con <paramref name="deltaMode"/> la conexión recibe un TagSnapshot versionado
+    /// y después solo TagDelta (JSON Patch) en lugar del UDT completo.
     /// </summary>
-    public void SubscribeToTag(string connectionId, string tagName)
+    public void SubscribeToTag(string connectionId, string tagName, bool deltaMode = false)
     {
         var groupName = $"tag:{tagName}";
         
@@ -75,6 +95,15 @@ public class WebSocketManager
                 existing.Add(connectionId);
                 return existing;
             });
+
+        if (deltaMode)
+        {
+            _deltaStates[DeltaKey(connectionId, tagName)] = new TagDeltaState();
+        }
+        else
+        {
+            _deltaStates.TryRemove(DeltaKey(connectionId, tagName), out _);
+        }
         
         Console.WriteLine($"   Total subscriptions after: {_tagSubscriptions.Count}");
         Console.WriteLine($"   Subscribers in group '{groupName}': {(_tagSubscriptions.TryGetValue(groupName, out var subs) ? subs.Count : 0)}");
@@ -89,6 +118,7 @@ public class WebSocketManager
     /// </summary>
     public void UnsubscribeFromTag(string connectionId, string tagName)
     {
+        _deltaStates.TryRemove(DeltaKey(connectionId, tagName), out _);
         var groupName = $"tag:{tagName}";
         if (_tagSubscriptions.TryGetValue(groupName, out var subscribers))
         {
@@ -132,14 +162,14 @@ public class WebSocketManager
         {
             if (_sockets.TryGetValue(connectionId, out var socket))
             {
-                if (socket.State == WebSocketState.Open)
+                if (socket.IsOpen)
                 {
-                    Console.WriteLine($"   ✅ Sending to connection {connectionId} (State: {socket.State})");
+                    Console.WriteLine($"   ✅ Sending to connection {connectionId}");
                     tasks.Add(SendMessageAsync(socket, bytes, cancellationToken));
                 }
                 else
                 {
-                    Console.WriteLine($"   ❌ Connection {connectionId} is not open (State: {socket.State})");
+                    Console.WriteLine($"   ❌ Connection {connectionId} is not open");
                     deadConnections.Add(connectionId);
                 }
             }
@@ -168,6 +198,138 @@ public class WebSocketManager
         }
     }
 
+    /// <summary>
+    /// Descarta la línea base delta de una conexión; la próxima lectura del tag
+    /// le llegará como TagSnapshot. Devuelve false si no está suscrita en modo delta.
+    /// </summary>
+    public bool RequestResync(string connectionId, string tagName)
+    {
+        if (!_deltaStates.TryGetValue(DeltaKey(connectionId, tagName), out var state))
+        {
+            return false;
+        }
+
+        lock (state)
+        {
+            state.Baseline = null;
+            state.HasBaseline = false;
+        }
+        _logger.LogInformation("🔁 Connection {ConnectionId} requested resync of tag '{TagName}'", connectionId, tagName);
+        return true;
+    }
+
+    /// <summary>
+    /// Envía una respuesta de lectura a los suscriptores del tag: TagSnapshot/TagDelta
+    /// a los que están en modo delta y TagReadResponse completo al resto.
+    /// </summary>
+    public async Task SendTagReadResponseAsync(TagReadResponse response, CancellationToken cancellationToken = default)
+    {
+        var fullMessage = new
+        {
+            type = "TagReadResponse",
+            tagName = response.TagName,
+            value = response.Value,
+            quality = response.Quality,
+            timestamp = response.Timestamp,
+            correlationId = response.CorrelationId,
+            hasError = response.HasError,
+            errorMessage = response.ErrorMessage
+        };
+
+        var groupName = $"tag:{response.TagName}";
+        var hasDeltaSubscribers = _tagSubscriptions.TryGetValue(groupName, out var subscribers)
+            && subscribers.Any(connectionId => _deltaStates.ContainsKey(DeltaKey(connectionId, response.TagName)));
+
+        // Los errores no tienen valor que versionar; van completos a todos
+        if (!hasDeltaSubscribers || response.HasError)
+        {
+            await SendToTagAsync(response.TagName, fullMessage, cancellationToken);
+            return;
+        }
+
+        var value = JsonSerializer.SerializeToNode(response.Value, JsonOptions);
+        var fullBytes = Encoding.UTF8.GetBytes(JsonSerializer.Serialize(fullMessage, JsonOptions));
+        var tasks = new List<Task>();
+
+        foreach (var connectionId in subscribers!.ToList())
+        {
+            if (!_sockets.TryGetValue(connectionId, out var socket) || !socket.IsOpen)
+            {
+                continue;
+            }
+
+            var bytes = fullBytes;
+            if (_deltaStates.TryGetValue(DeltaKey(connectionId, response.TagName), out var state))
+            {
+                var frame = BuildDeltaFrame(state, response, value);
+                if (frame != null)
+                {
+                    bytes = Encoding.UTF8.GetBytes(JsonSerializer.Serialize(frame, JsonOptions));
+                }
+                else if (string.IsNullOrEmpty(response.CorrelationId))
+                {
+                    // Nada cambió y nadie espera esta lectura: no se envía nada
+                    continue;
+                }
+                // Sin cambios pero con alguien esperando la respuesta: va completa, sin tocar la versión
+            }
+            tasks.Add(SendMessageAsync(socket, bytes, cancellationToken));
+        }
+
+        if (tasks.Count > 0)
+        {
+            await Task.WhenAll(tasks);
+        }
+    }
+
+    /// <summary>
+    /// Construye el TagSnapshot o TagDelta de una conexión en modo delta. Devuelve
+    /// null si el valor no cambió: la versión y la línea base se quedan como estaban.
+    /// </summary>
+    private static object? BuildDeltaFrame(TagDeltaState state, TagReadResponse response, JsonNode? value)
+    {
+        lock (state)
+        {
+            if (!state.HasBaseline)
+            {
+                state.Version++;
+                state.Baseline = value;
+                state.HasBaseline = true;
+                return new
+                {
+                    type = "TagSnapshot",
+                    tagName = response.TagName,
+                    version = state.Version,
+                    value,
+                    quality = response.Quality,
+                    timestamp = response.Timestamp,
+                    correlationId = response.CorrelationId
+                };
+            }
+
+            var patch = JsonPatchBuilder.Diff(state.Baseline, value);
+            if (patch.Count == 0)
+            {
+                return null;
+            }
+
+            var baseVersion = state.Version;
+            state.Version++;
+            state.Baseline = value;
+            return new
+            {
+                type = "TagDelta",
+                tagName = response.TagName,
+                baseVersion,
+                version = state.Version,
+                patch,
+                quality = response.Quality,
+                timestamp = response.Timestamp,
+                correlationId = response.CorrelationId
+            };
+        }
+    }
+
     /// <summary>
     /// Envía un mensaje a todos los clientes conectados.
     /// </summary>
@@ -187,7 +349,7 @@ public class WebSocketManager
         foreach (var kvp in _sockets)
         {
             var socket = kvp.Value;
-            if (socket.State == WebSocketState.Open)
+            if (socket.IsOpen)
             {
                 tasks.Add(SendMessageAsync(socket, bytes, cancellationToken));
             }
@@ -209,25 +371,72 @@ public class WebSocketManager
         }
     }
 
-    private async Task SendMessageAsync(WebSocket socket, byte[] bytes, CancellationToken cancellationToken)
+    /// <summary>
+    /// Envía un mensaje a una conexión específica (respuestas directas como pong, acks o errores).
+    /// </summary>
+    public async Task SendToConnectionAsync(string connectionId, object message, CancellationToken cancellationToken = default)
+    {
+        if (!_sockets.TryGetValue(connectionId, out var socket) || !socket.IsOpen)
+        {
+            _logger.LogDebug("⚠️ Cannot send to connection {ConnectionId}: not open", connectionId);
+            return;
+        }
+
+        var jsonOptions = new JsonSerializerOptions
+        {
+            PropertyNamingPolicy = JsonNamingPolicy.CamelCase,
+            WriteIndented = false
+        };
+        var json = JsonSerializer.Serialize(message, jsonOptions);
+        var bytes = Encoding.UTF8.GetBytes(json);
+
+        await SendMessageAsync(socket, bytes, cancellationToken);
+    }
+
+    private async Task SendMessageAsync(ITagClientConnection connection, byte[] bytes, CancellationToken cancellationToken)
     {
         try
         {
-            await socket.SendAsync(
-                new ArraySegment<byte>(bytes),
-                WebSocketMessageType.Text,
-                endOfMessage: true,
-                cancellationToken);
+            await connection.SendAsync(bytes, cancellationToken);
         }
         catch (Exception ex)
         {
-            _logger.LogWarning(ex, "⚠️ Error sending WebSocket message");
+            _logger.LogWarning(ex, "⚠️ Error sending message to client");
         }
     }
 
+    /// <summary>
+    /// Tags con al menos un suscriptor.
+    /// </summary>
+    public IReadOnlyList<string> GetSubscribedTags()
+    {
+        return _tagSubscriptions
+            .Where(kvp => kvp.Value.Count > 0)
+            .Select(kvp => kvp.Key.Substring("tag:".Length))
+            .ToList();
+    }
+
     /// <summary>
     /// Obtiene el número de conexiones activas.
     /// </summary>
     public int GetConnectionCount() => _sockets.Count;
+
+    private static readonly JsonSerializerOptions JsonOptions = new()
+    {
+        PropertyNamingPolicy = JsonNamingPolicy.CamelCase,
+        WriteIndented = false
+    };
+
+    private static string DeltaKey(string connectionId, string tagName) => $"{connectionId}|{tagName}";
+
+    /// <summary>
+    /// Línea base versionada de un tag para una conexión en modo delta.
+    /// </summary>
+    private sealed class TagDeltaState
+    {
+        public long Version { get; set; }
+        public JsonNode? Baseline { get; set; }
+        public bool HasBaseline { get; set; }
+    }
 }
 
@@ -0,0 +1,168 @@
+import { Component, Input, OnChanges, SimpleChanges } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { AvailableTag } from './mqtt.service';
+import { AlarmService } from './alarm.service';
+import { NotificationService } from './notification.service';
+import { AlarmCondition, AlarmConditionKind, AlarmRule, describeCondition, isAlarmRule } from './alarm-rules';
+import { memberName } from './tag-path';
+
+/**
+ * Alarmas activas o sin reconocer y editor de las reglas que las disparan.
+ */
+@Component({
+  selector: 'app-alarm-panel',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  template: `
+    <div class="alarm-panel">
+      <div class="alarm-row">
+        <strong>🚨 Alarms</strong>
+        <button class="btn-small" (click)="alarms.acknowledgeAll()">✔️ Acknowledge all</button>
+        <label>
+          <input type="checkbox" [ngModel]="alarms.browserNotifications | async" (ngModelChange)="setBrowserNotifications($event)" />
+          Browser popups
+        </label>
+      </div>
+
+      <table class="alarm-table" *ngIf="(alarms.alarms | async) as list">
+        <tr *ngFor="let alarm of list" [class.active]="alarm.active" [class.unacked]="!alarm.acknowledgedAt">
+          <td>{{ alarm.raisedAt | date:'HH:mm:ss' }}</td>
+          <td><strong>{{ alarm.ruleName }}</strong></td>
+          <td>{{ alarm.message }}</td>
+          <td>
+            {{ alarm.active ? 'Active' : 'Cleared ' + (alarm.clearedAt | date:'HH:mm:ss') }}
+            · {{ alarm.acknowledgedAt ? 'Acknowledged' : 'Unacknowledged' }}
+          </td>
+          <td><button *ngIf="!alarm.acknowledgedAt" class="btn-small" (click)="alarms.acknowledge(alarm.ruleId)">Ack</button></td>
+        </tr>
+        <tr *ngIf="list.length === 0"><td><small>No alarms</small></td></tr>
+      </table>
+
+      <details>
+        <summary>Rules ({{ (alarms.rules | async)?.length }})</summary>
+        <div *ngFor="let rule of alarms.rules | async" class="alarm-row">
+          <input type="checkbox" [ngModel]="rule.enabled" (ngModelChange)="alarms.setEnabled(rule.id, $event)" title="Enabled" />
+          <strong>{{ rule.name }}</strong>
+          <span>{{ member(rule) }} {{ describe(rule.condition) }}</span>
+          <button class="btn-small danger" (click)="alarms.removeRule(rule.id)">🗑</button>
+        </div>
+
+        <div class="alarm-row">
+          <input [(ngModel)]="name" placeholder="rule name" />
+          <input [(ngModel)]="tagName" list="alarmTagNames" placeholder="tag" />
+          <datalist id="alarmTagNames">
+            <option *ngFor="let tag of tags" [value]="tag.name">{{ tag.type }}</option>
+          </datalist>
+          <input [(ngModel)]="path" placeholder="member path, e.g. cavities[0].data" />
+          <select [(ngModel)]="kind">
+            <option value="threshold">Threshold</option>
+            <option value="equals">BOOL equals</option>
+            <option value="stuck">Unchanged for</option>
+            <option value="rate">Rate of change</option>
+          </select>
+          <ng-container [ngSwitch]="kind">
+            <ng-container *ngSwitchCase="'threshold'">
+              <select [(ngModel)]="operator">
+                <option value="above">&gt;</option>
+                <option value="below">&lt;</option>
+              </select>
+              <input type="number" [(ngModel)]="limit" placeholder="limit" />
+              <input type="number" [(ngModel)]="deadband" placeholder="deadband" min="0" />
+            </ng-container>
+            <select *ngSwitchCase="'equals'" [(ngModel)]="expected">
+              <option [ngValue]="true">TRUE</option>
+              <option [ngValue]="false">FALSE</option>
+            </select>
+            <label *ngSwitchCase="'stuck'"><input type="number" [(ngModel)]="seconds" min="1" /> s</label>
+            <label *ngSwitchCase="'rate'"><input type="number" [(ngModel)]="limitPerSecond" min="0" /> /s</label>
+          </ng-container>
+          <button class="btn-small" (click)="addRule()" [disabled]="!name.trim() || !tagName.trim()">➕ Add rule</button>
+        </div>
+      </details>
+    </div>
+  `,
+  styles: [`
+    .alarm-panel { margin-bottom: 20px; padding: 12px 16px; border: 1px solid #dee2e6; border-radius: 8px; font-size: 13px; }
+    .alarm-row { display: flex; flex-wrap: wrap; gap: 8px; align-items: center; margin: 6px 0; }
+    .alarm-row input[type="number"] { width: 80px; }
+    .alarm-table { width: 100%; border-collapse: collapse; }
+    .alarm-table td { padding: 3px 8px; border-bottom: 1px solid #f1f3f5; }
+    .alarm-table tr.active { background: #f8d7da; }
+    .alarm-table tr:not(.active) { color: #6c757d; }
+    .alarm-table tr.unacked td:first-child { font-weight: 600; }
+  `]
+})
+export class AlarmPanelComponent implements OnChanges {
+  @Input() tags: AvailableTag[] = [];
+  /** Tag activo en el workspace; es el tag por defecto de una regla nueva. */
+  @Input() selectedTag?: string;
+
+  name: string = '';
+  tagName: string = '';
+  path: string = '';
+  kind: AlarmConditionKind = 'threshold';
+  operator: 'above' | 'below' = 'above';
+  limit: number | null = null;
+  deadband: number | null = 0;
+  expected: boolean = true;
+  seconds: number = 30;
+  limitPerSecond: number | null = null;
+
+  constructor(
+    public alarms: AlarmService,
+    private notifications: NotificationService
+  ) {}
+
+  ngOnChanges(changes: SimpleChanges) {
+    if (changes['selectedTag'] && this.selectedTag && !this.tagName) {
+      this.tagName = this.selectedTag;
+    }
+  }
+
+  addRule() {
+    const rule: Omit<AlarmRule, 'id'> = {
+      name: this.name.trim(),
+      tagName: this.tagName.trim(),
+      path: this.path.trim(),
+      condition: this.buildCondition(),
+      enabled: true
+    };
+    if (!isAlarmRule({ ...rule, id: '' })) {
+      this.notifications.warning('Complete the condition with valid numbers before adding the rule');
+      return;
+    }
+    this.alarms.addRule(rule);
+    this.name = '';
+    this.path = '';
+  }
+
+  async setBrowserNotifications(enabled: boolean) {
+    if (enabled && !await this.alarms.setBrowserNotifications(true)) {
+      this.notifications.warning('Browser notifications are not available or were denied');
+    } else if (!enabled) {
+      await this.alarms.setBrowserNotifications(false);
+    }
+  }
+
+  member(rule: AlarmRule): string {
+    return memberName(rule.tagName, rule.path);
+  }
+
+  describe(condition: AlarmCondition): string {
+    return describeCondition(condition);
+  }
+
+  private buildCondition(): AlarmCondition {
+    switch (this.kind) {
+      case 'threshold':
+        return { kind: 'threshold', operator: this.operator, limit: Number(this.limit ?? NaN), deadband: Number(this.deadband ?? 0) };
+      case 'equals':
+        return { kind: 'equals', value: this.expected };
+      case 'stuck':
+        return { kind: 'stuck', seconds: Number(this.seconds) };
+      case 'rate':
+        return { kind: 'rate', limitPerSecond: Number(this.limitPerSecond ?? NaN) };
+    }
+  }
+}
@@ -0,0 +1,125 @@
+import { toTrendValue } from './trend.service';
+import { diffValues, isEmptyChangeSet } from './value-diff';
+
+/**
+ * Condiciones de alarma sobre el valor de un miembro:
+ * - `threshold`: por encima/debajo de un límite; se normaliza al volver más
+ *   allá de la banda muerta para que un valor que oscila no la dispare una y otra vez.
+ * - `equals`: un BOOL igual al valor esperado.
+ * - `stuck`: el valor no cambia durante N segundos.
+ * - `rate`: la variación por segundo entre dos lecturas supera el límite.
+ */
+export type AlarmCondition =
+  | { kind: 'threshold'; operator: 'above' | 'below'; limit: number; deadband: number }
+  | { kind: 'equals'; value: boolean }
+  | { kind: 'stuck'; seconds: number }
+  | { kind: 'rate'; limitPerSecond: number };
+
+export type AlarmConditionKind = AlarmCondition['kind'];
+
+export interface AlarmRule {
+  id: string;
+  name: string;
+  tagName: string;
+  /** Path del miembro; vacío para un tag escalar. */
+  path: string;
+  condition: AlarmCondition;
+  enabled: boolean;
+}
+
+/**
+ * Última lectura de una regla: la necesitan `stuck` (desde cuándo no cambia)
+ * y `rate` (valor y momento anteriores).
+ */
+export interface ConditionMemory {
+  value: unknown;
+  /** Epoch en ms. */
+  t: number;
+  changedAt: number;
+}
+
+/**
+ * Cada lectura trae objetos nuevos, así que un miembro struct o array se
+ * compara por contenido.
+ */
+export function remember(previous: ConditionMemory | undefined, value: unknown, t: number): ConditionMemory {
+  const changed = !previous || !isEmptyChangeSet(diffValues(previous.value, value));
+  return { value, t, changedAt: changed ? t : previous.changedAt };
+}
+
+/**
+ * Evalúa la condición con la lectura actual (ya pasada por `remember`).
+ * Devuelve null si no se puede evaluar (tipo no numérico, primera lectura de
+ * `rate`...), en cuyo caso la alarma se queda como estaba.
+ */
+export function evaluateCondition(
+  condition: AlarmCondition,
+  current: ConditionMemory,
+  previous: ConditionMemory | undefined,
+  active: boolean
+): boolean | null {
+  switch (condition.kind) {
+    case 'threshold': {
+      const value = toTrendValue(current.value);
+      if (value === null) {
+        return null;
+      }
+      const deadband = active ? Math.abs(condition.deadband) : 0;
+      return condition.operator === 'above'
+        ? value > condition.limit - deadband
+        : value < condition.limit + deadband;
+    }
+    case 'equals': {
+      const value = toTrendValue(current.value);
+      return value === null ? null : (value !== 0) === condition.value;
+    }
+    case 'stuck':
+      return current.t - current.changedAt >= condition.seconds * 1000;
+    case 'rate': {
+      const value = toTrendValue(current.value);
+      const before = previous && toTrendValue(previous.value);
+      if (value === null || before === null || before === undefined || current.t <= previous!.t) {
+        return null;
+      }
+      return Math.abs(value - before) / ((current.t - previous!.t) / 1000) > condition.limitPerSecond;
+    }
+  }
+}
+
+export function describeCondition(condition: AlarmCondition): string {
+  switch (condition.kind) {
+    case 'threshold':
+      return `${condition.operator === 'above' ? '>' : '<'} ${condition.limit}`
+        + (condition.deadband ? ` (deadband ${condition.deadband})` : '');
+    case 'equals':
+      return `= ${condition.value ? 'TRUE' : 'FALSE'}`;
+    case 'stuck':
+      return `unchanged for ${condition.seconds} s`;
+    case 'rate':
+      return `changes faster than ${condition.limitPerSecond}/s`;
+  }
+}
+
+/**
+ * Valida una regla leída de localStorage o creada en el editor.
+ */
+export function isAlarmRule(value: any): value is AlarmRule {
+  const condition = value?.condition;
+  if (typeof value?.id !== 'string' || typeof value.name !== 'string'
+    || typeof value.tagName !== 'string' || typeof value.path !== 'string') {
+    return false;
+  }
+  switch (condition?.kind) {
+    case 'threshold':
+      return (condition.operator === 'above' || condition.operator === 'below')
+        && Number.isFinite(condition.limit) && Number.isFinite(condition.deadband);
+    case 'equals':
+      return typeof condition.value === 'boolean';
+    case 'stuck':
+      return Number.isFinite(condition.seconds) && condition.seconds > 0;
+    case 'rate':
+      return Number.isFinite(condition.limitPerSecond) && condition.limitPerSecond >= 0;
+    default:
+      return false;
+  }
+}
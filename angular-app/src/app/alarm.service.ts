@@ -0,0 +1,281 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, interval, map, Subscription } from 'rxjs';
+import { WebSocketService, TagReadResponse } from './websocket.service';
+import { TagSubscriptionService, tagNameMatches } from './tag-subscription.service';
+import { GatewayService } from './gateway.service';
+import { getValueByPath, memberName } from './tag-path';
+import { AlarmRule, ConditionMemory, describeCondition, evaluateCondition, isAlarmRule, remember } from './alarm-rules';
+
+const STORAGE_PREFIX = 'plc-monitor.alarm-rules.';
+const BROWSER_NOTIFICATIONS_KEY = 'plc-monitor.alarm-notifications';
+
+/** Cada cuánto se comprueban las reglas `stuck` aunque no lleguen lecturas. */
+const STUCK_CHECK_MS = 1000;
+
+/**
+ * Una alarma por regla. Sigue en la lista mientras esté activa o sin
+ * reconocer; reconocer una que ya se normalizó la quita.
+ */
+export interface Alarm {
+  ruleId: string;
+  ruleName: string;
+  /** `tagName.path`, como se escribe en el PLC. */
+  member: string;
+  message: string;
+  value: unknown;
+  active: boolean;
+  raisedAt: Date;
+  clearedAt?: Date;
+  acknowledgedAt?: Date;
+}
+
+export interface AlarmSummary {
+  active: number;
+  unacknowledged: number;
+  /** La más reciente, para el banner. */
+  latest?: Alarm;
+}
+
+/**
+ * Motor de alarmas: evalúa las reglas con cada `TagReadResponse` que llega,
+ * venga del panel que venga, y mantiene un watch por tag con reglas para que
+ * se sigan evaluando aunque el tag no esté abierto. Las reglas se guardan por
+ * gateway; las alarmas solo viven en memoria.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class AlarmService {
+  private rules$ = new BehaviorSubject<AlarmRule[]>([]);
+  private alarms$ = new BehaviorSubject<Alarm[]>([]);
+  private browserNotifications$ = new BehaviorSubject<boolean>(this.readBrowserNotifications());
+  private memory = new Map<string, ConditionMemory>();
+  private watches = new Map<string, Subscription>();
+  private stuckCheck?: Subscription;
+
+  public rules = this.rules$.asObservable();
+  /** Más reciente primero. */
+  public alarms = this.alarms$.asObservable();
+  public browserNotifications = this.browserNotifications$.asObservable();
+  public summary = this.alarms$.pipe(map(alarms => ({
+    active: alarms.filter(alarm => alarm.active).length,
+    unacknowledged: alarms.filter(alarm => !alarm.acknowledgedAt).length,
+    latest: alarms[0]
+  } as AlarmSummary)));
+
+  constructor(
+    private websocketService: WebSocketService,
+    private tagSubscriptions: TagSubscriptionService,
+    private gateways: GatewayService
+  ) {
+    this.websocketService.tagReadResponse.subscribe(response => this.evaluate(response));
+    this.gateways.activeGateway.subscribe(() => {
+      // Las alarmas y los watches eran del backend anterior
+      this.watches.forEach(subscription => subscription.unsubscribe());
+      this.watches.clear();
+      this.memory.clear();
+      this.alarms$.next([]);
+      this.rules$.next(this.read());
+      this.syncWatches();
+    });
+  }
+
+  getRules(): AlarmRule[] {
+    return this.rules$.value;
+  }
+
+  addRule(rule: Omit<AlarmRule, 'id'>): AlarmRule {
+    const created: AlarmRule = { ...rule, id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}` };
+    this.update([...this.rules$.value, created]);
+    return created;
+  }
+
+  removeRule(ruleId: string): void {
+    this.forget(ruleId);
+    this.update(this.rules$.value.filter(rule => rule.id !== ruleId));
+  }
+
+  /** Deshabilitar una regla retira su alarma. */
+  setEnabled(ruleId: string, enabled: boolean): void {
+    if (!enabled) {
+      this.forget(ruleId);
+    }
+    this.update(this.rules$.value.map(rule => rule.id === ruleId ? { ...rule, enabled } : rule));
+  }
+
+  acknowledge(ruleId: string): void {
+    const now = new Date();
+    this.alarms$.next(this.alarms$.value
+      .map(alarm => alarm.ruleId === ruleId && !alarm.acknowledgedAt ? { ...alarm, acknowledgedAt: now } : alarm)
+      .filter(alarm => alarm.active || !alarm.acknowledgedAt));
+  }
+
+  acknowledgeAll(): void {
+    const now = new Date();
+    this.alarms$.next(this.alarms$.value
+      .filter(alarm => alarm.active)
+      .map(alarm => alarm.acknowledgedAt ? alarm : { ...alarm, acknowledgedAt: now }));
+  }
+
+  /**
+   * Activa los popups del navegador; pide permiso la primera vez y se queda
+   * desactivado si el usuario lo deniega.
+   */
+  async setBrowserNotifications(enabled: boolean): Promise<boolean> {
+    if (enabled) {
+      if (typeof Notification === 'undefined') {
+        enabled = false;
+      } else if (Notification.permission !== 'granted') {
+        enabled = await Notification.requestPermission() === 'granted';
+      }
+    }
+    this.browserNotifications$.next(enabled);
+    try {
+      localStorage.setItem(BROWSER_NOTIFICATIONS_KEY, String(enabled));
+    } catch (err) {
+      console.warn('⚠️ Could not persist alarm notification setting:', err);
+    }
+    return enabled;
+  }
+
+  private evaluate(response: TagReadResponse) {
+    if (response.hasError || response.value === undefined) {
+      return;
+    }
+    const t = Date.now();
+    this.rules$.value
+      .filter(rule => rule.enabled && tagNameMatches(rule.tagName, response.tagName))
+      .forEach(rule => {
+        const previous = this.memory.get(rule.id);
+        const current = remember(previous, getValueByPath(response.value, rule.path), t);
+        this.memory.set(rule.id, current);
+        this.apply(rule, evaluateCondition(rule.condition, current, previous, this.isActive(rule.id)), current.value);
+      });
+  }
+
+  /**
+   * Sin lecturas nuevas (p. ej. en modo push) un valor atascado no dispararía
+   * nunca su regla: se revisan con un timer propio.
+   */
+  private checkStuck() {
+    const t = Date.now();
+    this.rules$.value
+      .filter(rule => rule.enabled && rule.condition.kind === 'stuck')
+      .forEach(rule => {
+        const memory = this.memory.get(rule.id);
+        if (memory) {
+          this.apply(rule, evaluateCondition(rule.condition, { ...memory, t }, memory, this.isActive(rule.id)), memory.value);
+        }
+      });
+  }
+
+  private apply(rule: AlarmRule, triggered: boolean | null, value: unknown) {
+    if (triggered === null || triggered === this.isActive(rule.id)) {
+      return;
+    }
+    const existing = this.alarms$.value.find(alarm => alarm.ruleId === rule.id);
+    const others = this.alarms$.value.filter(alarm => alarm.ruleId !== rule.id);
+    if (triggered) {
+      const alarm: Alarm = {
+        ruleId: rule.id,
+        ruleName: rule.name,
+        member: memberName(rule.tagName, rule.path),
+        message: `${memberName(rule.tagName, rule.path)} ${describeCondition(rule.condition)} (value ${this.format(value)})`,
+        value,
+        active: true,
+        raisedAt: new Date()
+      };
+      this.alarms$.next([alarm, ...others]);
+      this.popup(alarm);
+      return;
+    }
+    const cleared: Alarm = { ...existing!, active: false, value, clearedAt: new Date() };
+    // Reconocida y normalizada: ya no hay nada que atender
+    this.alarms$.next(cleared.acknowledgedAt ? others : this.alarms$.value.map(alarm => alarm.ruleId === rule.id ? cleared : alarm));
+  }
+
+  private popup(alarm: Alarm) {
+    if (!this.browserNotifications$.value || typeof Notification === 'undefined' || Notification.permission !== 'granted') {
+      return;
+    }
+    try {
+      new Notification(`🚨 ${alarm.ruleName}`, { body: alarm.message, tag: alarm.ruleId });
+    } catch (err) {
+      console.warn('⚠️ Could not show alarm notification:', err);
+    }
+  }
+
+  private isActive(ruleId: string): boolean {
+    return this.alarms$.value.some(alarm => alarm.ruleId === ruleId && alarm.active);
+  }
+
+  private forget(ruleId: string) {
+    this.memory.delete(ruleId);
+    this.alarms$.next(this.alarms$.value.filter(alarm => alarm.ruleId !== ruleId));
+  }
+
+  private update(rules: AlarmRule[]) {
+    this.rules$.next(rules);
+    this.syncWatches();
+    try {
+      localStorage.setItem(this.storageKey(), JSON.stringify(rules));
+    } catch (err) {
+      console.warn('⚠️ Could not persist alarm rules:', err);
+    }
+  }
+
+  /**
+   * Un watch por tag con reglas habilitadas; la evaluación se hace sobre el
+   * flujo global de lecturas, el watch solo asegura que lleguen.
+   */
+  private syncWatches() {
+    const enabled = this.rules$.value.filter(rule => rule.enabled);
+    const tagNames = new Set(enabled.map(rule => rule.tagName));
+    this.watches.forEach((subscription, tagName) => {
+      if (!tagNames.has(tagName)) {
+        subscription.unsubscribe();
+        this.watches.delete(tagName);
+      }
+    });
+    tagNames.forEach(tagName => {
+      if (!this.watches.has(tagName)) {
+        this.watches.set(tagName, this.tagSubscriptions.watch(tagName).subscribe());
+      }
+    });
+
+    const needsStuckCheck = enabled.some(rule => rule.condition.kind === 'stuck');
+    if (needsStuckCheck && !this.stuckCheck) {
+      this.stuckCheck = interval(STUCK_CHECK_MS).subscribe(() => this.checkStuck());
+    } else if (!needsStuckCheck && this.stuckCheck) {
+      this.stuckCheck.unsubscribe();
+      this.stuckCheck = undefined;
+    }
+  }
+
+  private format(value: unknown): string {
+    return typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value);
+  }
+
+  private read(): AlarmRule[] {
+    try {
+      const stored = JSON.parse(localStorage.getItem(this.storageKey()) ?? '[]');
+      return Array.isArray(stored)
+        ? stored.filter(isAlarmRule).map(rule => ({ ...rule, enabled: rule.enabled !== false }))
+        : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private readBrowserNotifications(): boolean {
+    try {
+      return localStorage.getItem(BROWSER_NOTIFICATIONS_KEY) === 'true';
+    } catch {
+      return false;
+    }
+  }
+
+  private storageKey(): string {
+    return STORAGE_PREFIX + this.gateways.getActiveGateway().id;
+  }
+}
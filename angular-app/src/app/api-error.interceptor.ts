@@ -0,0 +1,34 @@
+import { HttpErrorResponse, HttpInterceptorFn } from '@angular/common/http';
+import { catchError, retry, throwError, timer } from 'rxjs';
+import { ApiError } from './api-error';
+
+const IDEMPOTENT_METHODS = ['GET', 'HEAD'];
+/** Fallos transitorios: sin red, timeout, límite de peticiones o backend caído. */
+const RETRYABLE_STATUSES = [0, 408, 429, 502, 503, 504];
+const MAX_RETRIES = 2;
+const BASE_RETRY_DELAY_MS = 500;
+
+/**
+ * Reintenta con backoff exponencial los GET que fallan por causas transitorias
+ * y convierte cualquier `HttpErrorResponse` en `ApiError`, de modo que los
+ * llamadores no tengan que rebuscar el mensaje en `err.error?.error`.
+ * Los POST nunca se reintentan: una escritura podría aplicarse dos veces.
+ */
+export const apiErrorInterceptor: HttpInterceptorFn = (req, next) => {
+  const retries = IDEMPOTENT_METHODS.includes(req.method) ? MAX_RETRIES : 0;
+
+  return next(req).pipe(
+    retry({
+      count: retries,
+      delay: (err, retryCount) => {
+        if (!(err instanceof HttpErrorResponse) || !RETRYABLE_STATUSES.includes(err.status)) {
+          return throwError(() => err);
+        }
+        const delayMs = BASE_RETRY_DELAY_MS * 2 ** (retryCount - 1);
+        console.warn(`🔁 Retrying ${req.method} ${req.url} in ${delayMs}ms (HTTP ${err.status}, attempt ${retryCount}/${retries})`);
+        return timer(delayMs);
+      }
+    }),
+    catchError(err => throwError(() => err instanceof HttpErrorResponse ? ApiError.fromHttpError(err) : err))
+  );
+};
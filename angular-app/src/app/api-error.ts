@@ -0,0 +1,71 @@
+import { HttpErrorResponse } from '@angular/common/http';
+
+const STATUS_CODES: Record<number, string> = {
+  0: 'network-error',
+  400: 'bad-request',
+  401: 'unauthorized',
+  403: 'forbidden',
+  404: 'not-found',
+  408: 'timeout',
+  409: 'conflict',
+  429: 'rate-limited',
+  500: 'server-error',
+  502: 'bad-gateway',
+  503: 'unavailable',
+  504: 'gateway-timeout'
+};
+
+/**
+ * Fallo HTTP normalizado por `apiErrorInterceptor`. Los controllers responden
+ * `{ error, code?, correlationId? }`; lo que falte se deriva del estado HTTP.
+ *
+ * - `status`: código HTTP; 0 si la petición no llegó al servidor.
+ * - `code`: identificador estable del fallo (`code` del backend o derivado del estado).
+ */
+export class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: string,
+    message: string,
+    readonly correlationId?: string,
+    readonly url?: string,
+    cause?: unknown
+  ) {
+    super(message, { cause });
+    this.name = 'ApiError';
+  }
+
+  static fromHttpError(err: HttpErrorResponse): ApiError {
+    const body = err.error !== null && typeof err.error === 'object' ? err.error : {};
+    const text = (value: unknown) => typeof value === 'string' && value.trim() ? value : undefined;
+
+    const message = text(body.error)
+      ?? text(body.message)
+      ?? text(body.title)
+      ?? (typeof err.error === 'string' && err.error.length < 200 ? text(err.error) : undefined)
+      ?? (err.status === 0 ? 'Backend unreachable' : `${err.status} ${err.statusText || 'HTTP error'}`);
+
+    return new ApiError(
+      err.status,
+      text(body.code) ?? STATUS_CODES[err.status] ?? `http-${err.status}`,
+      message,
+      text(body.correlationId) ?? err.headers?.get('X-Correlation-Id') ?? undefined,
+      err.url ?? undefined,
+      err
+    );
+  }
+}
+
+export function isApiError(err: unknown): err is ApiError {
+  return err instanceof ApiError;
+}
+
+/**
+ * Mensaje legible de cualquier fallo (ApiError, TagRequestError, Error...).
+ */
+export function describeError(err: unknown, fallback: string): string {
+  if (err instanceof Error && err.message) {
+    return err.message;
+  }
+  return typeof err === 'string' && err ? err : fallback;
+}
@@ -0,0 +1,102 @@
+import { InjectionToken } from '@angular/core';
+import { TAG_TRANSPORT_KINDS, TagTransportKind } from './tag-transport';
+
+/**
+ * Un backend ConduitPlcDemo (normalmente uno por línea o por planta).
+ */
+export interface GatewayConfig {
+  id: string;
+  name: string;
+  /** Línea, planta o zona; agrupa las opciones del selector. */
+  site?: string;
+  /** Base de la API REST, p. ej. 'http://line2:5000'. Vacío = el host que sirvió el SPA. */
+  restBaseUrl: string;
+  /** Endpoint en tiempo real; relativo al host del SPA si empieza por '/'. */
+  wsUrl: string;
+  /** Transporte del endpoint en tiempo real; por defecto WebSocket. */
+  transport?: TagTransportKind;
+}
+
+/**
+ * Contenido de `config.json`, que se descarga antes de arrancar Angular para
+ * poder cambiar de backend sin recompilar el SPA.
+ */
+export interface AppConfig {
+  gateways: GatewayConfig[];
+  /** Id del gateway inicial si el usuario aún no eligió ninguno. */
+  defaultGatewayId?: string;
+}
+
+/**
+ * Sin `config.json` el SPA sigue hablando con el backend que lo sirvió.
+ */
+export const DEFAULT_APP_CONFIG: AppConfig = {
+  gateways: [
+    { id: 'local', name: 'This server', restBaseUrl: '', wsUrl: '/ws/plctag' }
+  ]
+};
+
+export const APP_CONFIG = new InjectionToken<AppConfig>('APP_CONFIG', {
+  providedIn: 'root',
+  factory: () => DEFAULT_APP_CONFIG
+});
+
+/**
+ * Descarga y valida `config.json`. Cualquier fallo (404, JSON inválido,
+ * entradas incompletas) cae en `DEFAULT_APP_CONFIG` para no bloquear el arranque.
+ */
+export async function loadAppConfig(url = 'config.json'): Promise<AppConfig> {
+  try {
+    const response = await fetch(url, { cache: 'no-cache' });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    const config = parseAppConfig(await response.json());
+    console.log(`⚙️ Loaded ${config.gateways.length} gateway(s) from ${url}`);
+    return config;
+  } catch (err) {
+    console.warn(`⚠️ Could not load ${url}, using the serving host as the only gateway:`, err);
+    return DEFAULT_APP_CONFIG;
+  }
+}
+
+function parseAppConfig(raw: unknown): AppConfig {
+  const gateways = (raw as { gateways?: unknown })?.gateways;
+  if (!Array.isArray(gateways) || gateways.length === 0) {
+    throw new Error('"gateways" must be a non-empty array');
+  }
+
+  const parsed = gateways.map((entry, index) => parseGateway(entry, index));
+  const ids = new Set(parsed.map(gateway => gateway.id));
+  if (ids.size !== parsed.length) {
+    throw new Error('Gateway ids must be unique');
+  }
+
+  const defaultGatewayId = (raw as { defaultGatewayId?: unknown }).defaultGatewayId;
+  return {
+    gateways: parsed,
+    defaultGatewayId: typeof defaultGatewayId === 'string' && ids.has(defaultGatewayId) ? defaultGatewayId : undefined
+  };
+}
+
+function parseGateway(entry: any, index: number): GatewayConfig {
+  if (typeof entry?.id !== 'string' || !entry.id) {
+    throw new Error(`gateways[${index}].id must be a non-empty string`);
+  }
+  if (typeof entry.wsUrl !== 'string' || !entry.wsUrl) {
+    throw new Error(`gateways[${index}].wsUrl must be a non-empty string`);
+  }
+  if (entry.transport !== undefined && !TAG_TRANSPORT_KINDS.includes(entry.transport)) {
+    throw new Error(`gateways[${index}].transport must be one of ${TAG_TRANSPORT_KINDS.join(', ')}`);
+  }
+
+  return {
+    id: entry.id,
+    name: typeof entry.name === 'string' && entry.name ? entry.name : entry.id,
+    site: typeof entry.site === 'string' ? entry.site : undefined,
+    // Sin barra final para poder concatenar '/api/...'
+    restBaseUrl: typeof entry.restBaseUrl === 'string' ? entry.restBaseUrl.replace(/\/+$/, '') : '',
+    wsUrl: entry.wsUrl,
+    transport: entry.transport
+  };
+}
@@ -2,68 +2,163 @@ import { Component, OnInit, OnDestroy } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
 import { HttpClient } from '@angular/common/http';
-import { interval, Subscription } from 'rxjs';
-import { TreeNodeComponent, TreeNode } from './tree-node.component';
-import { GraphViewComponent } from './graph-view.component';
-import { WebSocketService, TagReadResponse, TagWriteResponse } from './websocket.service';
+import { NavigationEnd, Router, RouterOutlet } from '@angular/router';
+import { filter, skip, Subscription, take } from 'rxjs';
+import { ConnectionHealthComponent } from './connection-health.component';
+import { PendingWritesComponent } from './pending-writes.component';
+import { WatchListComponent } from './watch-list.component';
+import { MqttConsoleComponent } from './mqtt-console.component';
+import { TagCatalogComponent } from './tag-catalog.component';
+import { NotificationCenterComponent } from './notification-center.component';
+import { ChangeLogComponent } from './change-log.component';
+import { TrendChartComponent } from './trend-chart.component';
+import { SnapshotDiffComponent } from './snapshot-diff.component';
+import { RecipeImportComponent } from './recipe-import.component';
+import { AlarmPanelComponent } from './alarm-panel.component';
+import { AlarmService } from './alarm.service';
+import { TrendService } from './trend.service';
+import { TagPanelComponent } from './tag-panel.component';
+import { WebSocketService, ReconnectSchedule } from './websocket.service';
 import { MqttService, AvailableTag } from './mqtt.service';
+import { TagTransportKind } from './tag-transport';
+import { GatewayService } from './gateway.service';
+import { GatewayConfig } from './app-config';
+import { NotificationService } from './notification.service';
+import { WorkspacePane, WorkspaceService, WorkspaceState } from './workspace.service';
+import { EffectiveRefresh, RefreshMonitorService } from './refresh-monitor.service';
+import { formatRefreshInterval } from './refresh-strategy';
+
+const TRANSPORT_LABELS: Record<TagTransportKind, string> = {
+  websocket: 'WebSocket',
+  signalr: 'SignalR',
+  sse: 'SSE',
+  mock: 'Mock'
+};
 
 @Component({
   selector: 'app-root',
   standalone: true,
-  imports: [CommonModule, FormsModule, TreeNodeComponent, GraphViewComponent],
+  imports: [
+    CommonModule,
+    FormsModule,
+    RouterOutlet,
+    ConnectionHealthComponent,
+    PendingWritesComponent,
+    WatchListComponent,
+    MqttConsoleComponent,
+    TagCatalogComponent,
+    NotificationCenterComponent,
+    ChangeLogComponent,
+    TrendChartComponent,
+    SnapshotDiffComponent,
+    RecipeImportComponent,
+    AlarmPanelComponent,
+    TagPanelComponent
+  ],
   styleUrls: [],
   template: `
     <div class="container">
       <div class="header">
         <h1>🔌 PLC Tag Monitor</h1>
-      </div>
-
-      <div class="controls">
-        <div class="input-group">
-          <label for="tagSelect">Select Tag:</label>
+        <div class="gateway-switcher" *ngIf="gateways.length > 1">
+          <label for="gatewaySelect">Gateway:</label>
           <select
-            id="tagSelect"
-            [(ngModel)]="selectedTagName"
-            (change)="onTagSelected()"
-            [disabled]="loading || loadingTags"
+            id="gatewaySelect"
+            [ngModel]="activeGatewayId"
+            (ngModelChange)="switchGateway($event)"
             class="tag-select"
           >
-            <option value="">-- Select a tag --</option>
-            <option *ngFor="let tag of availableTags" [value]="tag.name">
-              {{ tag.name }} ({{ tag.type }})
-            </option>
+            <optgroup *ngFor="let site of gatewaySites" [label]="site.name">
+              <option *ngFor="let gateway of site.gateways" [value]="gateway.id">{{ gateway.name }}</option>
+            </optgroup>
           </select>
         </div>
-        <div class="input-group" *ngIf="selectedTagName">
-          <label for="autoRefresh">Auto Refresh (5s):</label>
-          <input
-            id="autoRefresh"
-            type="checkbox"
-            [(ngModel)]="autoRefreshEnabled"
-            (change)="toggleAutoRefresh()"
-          />
+        <div class="refresh-rates" *ngIf="refreshMonitor.rates | async as rates">
+          <span *ngFor="let rate of rates">⏱ {{ rate.tagName }}: {{ refreshLabel(rate) }}</span>
+        </div>
+        <app-notification-center></app-notification-center>
+      </div>
+
+      <ng-container *ngIf="alarms.summary | async as alarmSummary">
+        <div *ngIf="alarmSummary.latest as latest" class="alarm-banner" [class.active]="alarmSummary.active > 0">
+          🚨 {{ alarmSummary.active }} active · {{ alarmSummary.unacknowledged }} unacknowledged
+          — {{ latest.ruleName }}: {{ latest.message }}
+          <button class="btn-small" (click)="showAlarms = true">Show</button>
+          <button class="btn-small" (click)="alarms.acknowledgeAll()" [disabled]="alarmSummary.unacknowledged === 0">✔️ Ack all</button>
+        </div>
+      </ng-container>
+
+      <div class="controls">
+        <div class="input-group">
+          <label>Select Tag:</label>
+          <app-tag-catalog
+            [tags]="availableTags"
+            [selected]="activePane?.tagName ?? ''"
+            [disabled]="loadingTags"
+            (tagSelected)="openTag($event)"
+          ></app-tag-catalog>
         </div>
         <div class="signalr-status" [class.connected]="websocketConnected" [class.disconnected]="!websocketConnected">
           <span class="status-dot"></span>
-          WebSocket: {{ websocketConnected ? 'Connected' : 'Disconnected' }}
+          {{ transportLabel }}: {{ websocketConnected ? 'Connected' : 'Disconnected' }}
+          <span *ngIf="!websocketConnected && reconnectSchedule" class="reconnect-info">
+            (retry #{{ reconnectSchedule.attempt }} in {{ reconnectSchedule.delayMs / 1000 | number:'1.0-1' }}s)
+          </span>
+          <button *ngIf="!websocketConnected" class="btn-reconnect" (click)="reconnectNow()">
+            🔄 Reconnect now
+          </button>
         </div>
+        <app-connection-health></app-connection-health>
+        <button class="btn-small" (click)="showWatchList = !showWatchList">
+          👁️ {{ showWatchList ? 'Hide' : 'Show' }} watch list
+        </button>
+        <button class="btn-small" (click)="showMqttConsole = !showMqttConsole">
+          📡 {{ showMqttConsole ? 'Hide' : 'Show' }} MQTT console
+        </button>
+        <button class="btn-small" (click)="showChangeLog = !showChangeLog">
+          📜 {{ showChangeLog ? 'Hide' : 'Show' }} change log
+        </button>
+        <button class="btn-small" (click)="showSnapshots = !showSnapshots">
+          📸 {{ showSnapshots ? 'Hide' : 'Show' }} snapshots
+        </button>
+        <button class="btn-small" (click)="showRecipeImport = !showRecipeImport">
+          🧾 {{ showRecipeImport ? 'Hide' : 'Show' }} recipe import
+        </button>
+        <button class="btn-small" (click)="showAlarms = !showAlarms">
+          🚨 {{ showAlarms ? 'Hide' : 'Show' }} alarms
+        </button>
       </div>
 
-      <div *ngIf="error" class="error">
-        ❌ {{ error }}
-      </div>
+      <app-pending-writes [connected]="websocketConnected"></app-pending-writes>
+
+      <app-watch-list *ngIf="showWatchList"></app-watch-list>
+
+      <app-mqtt-console *ngIf="showMqttConsole"></app-mqtt-console>
+
+      <app-change-log *ngIf="showChangeLog"></app-change-log>
+
+      <app-snapshot-diff *ngIf="showSnapshots"></app-snapshot-diff>
+
+      <app-recipe-import
+        *ngIf="showRecipeImport"
+        [tags]="availableTags"
+        [selectedTag]="activePane?.tagName"
+      ></app-recipe-import>
+
+      <app-alarm-panel
+        *ngIf="showAlarms"
+        [tags]="availableTags"
+        [selectedTag]="activePane?.tagName"
+      ></app-alarm-panel>
+
+      <app-trend-chart *ngIf="(trends.pens | async)?.length"></app-trend-chart>
 
       <div *ngIf="status" class="status" [class.connected]="isConnected" [class.disconnected]="!isConnected">
         <span class="status-indicator" [class.active]="isConnected" [class.inactive]="!isConnected"></span>
         {{ status }}
       </div>
 
-      <div *ngIf="loading && !treeData" class="loading">
-        ⏳ Loading structure...
-      </div>
-
-      <div *ngIf="!loading && !treeData && !error && !loadingTags" class="empty-state">
+      <div *ngIf="!workspace.panes.length && !loadingTags" class="empty-state">
         Select a tag from the dropdown to begin
       </div>
       
@@ -71,60 +166,144 @@ import { MqttService, AvailableTag } from './mqtt.service';
         ⏳ Loading available tags...
       </div>
 
-      <div *ngIf="treeData" class="tree-container">
-        <app-graph-view 
-          [treeData]="treeData"
-          (writeValue)="writeValue($event)"
-          (editingStart)="onEditingStart($event)"
-          (editingEnd)="onEditingEnd($event)"
-        ></app-graph-view>
+      <div *ngIf="workspace.panes.length > 0" class="workspace">
+        <div class="workspace-tabs">
+          <div
+            *ngFor="let pane of workspace.panes; trackBy: trackByPaneId"
+            class="workspace-tab"
+            [class.active]="pane.id === workspace.activePaneId"
+            (click)="workspaceService.activate(pane.id)"
+          >
+            {{ pane.tagName }}
+            <button class="tab-close" (click)="closePane($event, pane)" title="Close">✕</button>
+          </div>
+          <span class="workspace-layout">
+            <button class="btn-small" [disabled]="workspace.layout === 'tabs'" (click)="workspaceService.setLayout('tabs')">🗂️ Tabs</button>
+            <button class="btn-small" [disabled]="workspace.layout === 'split'" (click)="workspaceService.setLayout('split')">◫ Split</button>
+          </span>
+        </div>
+
+        <div class="workspace-panes" [class.split]="workspace.layout === 'split'">
+          <app-tag-panel
+            *ngFor="let pane of workspace.panes; trackBy: trackByPaneId"
+            class="workspace-pane"
+            [hidden]="workspace.layout === 'tabs' && pane.id !== workspace.activePaneId"
+            [pane]="pane"
+            [connected]="websocketConnected"
+          ></app-tag-panel>
+        </div>
       </div>
+
+      <router-outlet></router-outlet>
     </div>
   `,
   styles: []
 })
 export class AppComponent implements OnInit, OnDestroy {
-  selectedTagName: string = '';
   availableTags: AvailableTag[] = [];
   loadingTags: boolean = false;
-  tagName: string = '';
-  treeData: TreeNode[] = [];
-  loading: boolean = false;
-  error: string = '';
   status: string = '';
   isConnected: boolean = false;
   websocketConnected: boolean = false;
-  autoRefreshEnabled: boolean = true;
-  private updateSubscription?: Subscription;
+  reconnectSchedule?: ReconnectSchedule;
+  transportLabel: string = 'WebSocket';
+  gateways: GatewayConfig[] = [];
+  gatewaySites: { name: string; gateways: GatewayConfig[] }[] = [];
+  activeGatewayId: string = '';
+  showWatchList: boolean = false;
+  showMqttConsole: boolean = false;
+  showChangeLog: boolean = false;
+  showSnapshots: boolean = false;
+  showRecipeImport: boolean = false;
+  showAlarms: boolean = false;
+  workspace: WorkspaceState = { panes: [], layout: 'tabs' };
+  activePane?: WorkspacePane;
   private websocketSubscriptions?: Subscription;
-  private previousData: any = null;
-  private editingPaths: Set<string> = new Set();  // Track which paths are being edited
+  private gatewaySubscription?: Subscription;
+  private workspaceSubscription?: Subscription;
+  private routerSubscription?: Subscription;
+  private urlSyncEnabled: boolean = false;
 
   constructor(
     private http: HttpClient,
     private websocketService: WebSocketService,
-    private mqttService: MqttService
+    private mqttService: MqttService,
+    private gatewayService: GatewayService,
+    private notifications: NotificationService,
+    public workspaceService: WorkspaceService,
+    public refreshMonitor: RefreshMonitorService,
+    public trends: TrendService,
+    public alarms: AlarmService,
+    private router: Router
   ) {}
 
   ngOnInit() {
+    this.setupGateways();
     this.checkStatus();
     this.loadAvailableTags();
     this.setupWebSocket();
+
+    this.workspaceSubscription = this.workspaceService.state.subscribe(state => {
+      this.workspace = state;
+      this.activePane = state.panes.find(pane => pane.id === state.activePaneId);
+      this.syncUrl();
+    });
+
+    // Hasta que el router procese la URL inicial no se refleja el workspace en ella:
+    // el panel restaurado de localStorage pisaría el deep link
+    this.routerSubscription = this.router.events
+      .pipe(filter((event): event is NavigationEnd => event instanceof NavigationEnd), take(1))
+      .subscribe(() => {
+        this.urlSyncEnabled = true;
+        this.syncUrl();
+      });
   }
 
   ngOnDestroy() {
-    if (this.updateSubscription) {
-      this.updateSubscription.unsubscribe();
-    }
     if (this.websocketSubscriptions) {
       this.websocketSubscriptions.unsubscribe();
     }
-    if (this.tagName) {
-      this.websocketService.unsubscribeFromTag(this.tagName);
-    }
+    this.gatewaySubscription?.unsubscribe();
+    this.workspaceSubscription?.unsubscribe();
+    this.routerSubscription?.unsubscribe();
     this.websocketService.disconnect();
   }
 
+  private setupGateways() {
+    this.gateways = this.gatewayService.getGateways();
+    const sites = new Map<string, GatewayConfig[]>();
+    this.gateways.forEach(gateway => {
+      const site = gateway.site || 'Gateways';
+      sites.set(site, [...(sites.get(site) ?? []), gateway]);
+    });
+    this.gatewaySites = Array.from(sites, ([name, gateways]) => ({ name, gateways }));
+    this.activeGatewayId = this.gatewayService.getActiveGateway().id;
+
+    // WebSocketService ya reconecta por su cuenta; aquí solo se recarga la vista
+    this.gatewaySubscription = this.gatewayService.activeGateway.pipe(skip(1)).subscribe(gateway => {
+      this.activeGatewayId = gateway.id;
+      this.resetForGateway();
+    });
+  }
+
+  switchGateway(id: string) {
+    if (!this.gatewayService.select(id)) {
+      this.activeGatewayId = this.gatewayService.getActiveGateway().id;
+    }
+  }
+
+  /**
+   * Los tags del gateway anterior no valen en el nuevo backend; el workspace
+   * del nuevo gateway lo restaura WorkspaceService.
+   */
+  private resetForGateway() {
+    this.availableTags = [];
+    this.status = '';
+    this.transportLabel = TRANSPORT_LABELS[this.websocketService.getTransportKind()];
+    this.checkStatus();
+    this.loadAvailableTags();
+  }
+
   loadAvailableTags() {
     this.loadingTags = true;
     this.mqttService.getAvailableTags().subscribe({
@@ -135,106 +314,80 @@ export class AppComponent implements OnInit, OnDestroy {
       error: (err) => {
         console.error('Error loading available tags:', err);
         this.loadingTags = false;
-        this.error = 'Error loading available tags';
+        this.notifications.error('Error loading available tags', err);
       }
     });
   }
 
-  onTagSelected() {
-    if (this.selectedTagName) {
-      // Desuscribirse del tag anterior si existe
-      if (this.tagName) {
-        this.websocketService.unsubscribeFromTag(this.tagName);
-      }
-      
-      this.tagName = this.selectedTagName;
-      
-      // Suscribirse al nuevo tag ANTES de cargar la estructura
-      this.websocketService.subscribeToTag(this.tagName);
-      console.log(`✅ Subscribed to tag, now loading structure for tag: ${this.tagName}`);
-      this.loadStructure();
-      
-      // Iniciar auto-refresh si está habilitado
-      if (this.autoRefreshEnabled) {
-        this.startAutoUpdate();
-      }
+  openTag(tagName: string) {
+    this.workspaceService.open(tagName);
+  }
+
+  closePane(event: MouseEvent, pane: WorkspacePane) {
+    // Que el click no active la pestaña que se está cerrando
+    event.stopPropagation();
+    this.workspaceService.close(pane.id);
+  }
+
+  trackByPaneId(_index: number, pane: WorkspacePane): string {
+    return pane.id;
+  }
+
+  refreshLabel(rate: EffectiveRefresh): string {
+    return rate.intervalMs === null ? 'push' : `${formatRefreshInterval(rate.intervalMs)} (${rate.mode})`;
+  }
+
+  /**
+   * Refleja el panel activo en la URL (/tags/:tagName?path=&view=). Cambiar de
+   * tag apila una entrada en el historial para back/forward; cambiar de miembro
+   * o de vista la reemplaza.
+   */
+  private syncUrl() {
+    // Durante una navegación es la URL la que está actualizando el workspace
+    if (!this.urlSyncEnabled || this.router.getCurrentNavigation()) {
+      return;
     }
+
+    const pane = this.activePane;
+    const target = pane
+      ? this.router.createUrlTree(['/tags', pane.tagName], { queryParams: { path: pane.focusPath, view: pane.view } })
+      : this.router.createUrlTree(['/']);
+    if (this.router.serializeUrl(target) === this.router.url) {
+      return;
+    }
+
+    // Desde la raíz (sin tag) tampoco se apila: volver atrás no debe dejar la vista vacía
+    const currentPath = this.router.url.split('?')[0];
+    const sameTag = !!pane && currentPath === this.router.serializeUrl(this.router.createUrlTree(['/tags', pane.tagName]));
+    this.router.navigateByUrl(target, { replaceUrl: sameTag || currentPath === '/' });
   }
 
   setupWebSocket() {
     // Escuchar cambios de estado de WebSocket
     this.websocketSubscriptions = this.websocketService.connectionState.subscribe(state => {
       this.websocketConnected = state === 'connected';
+      if (this.websocketConnected) {
+        this.reconnectSchedule = undefined;
+      }
     });
 
-    // Escuchar respuestas de lectura
-    this.websocketSubscriptions.add(
-      this.websocketService.tagReadResponse.subscribe((response: TagReadResponse) => {
-        console.log('📥 SignalR TagReadResponse received:', response);
-        console.log('   Current tagName:', this.tagName);
-        console.log('   Response tagName:', response.tagName);
-        console.log('   Has error:', response.hasError);
-        console.log('   Has value:', !!response.value);
-        console.log('   Value type:', typeof response.value);
-        
-        // Verificar si el tagName coincide (puede ser exacto o puede venir con prefijo/sufijo)
-        const tagMatches = response.tagName === this.tagName || 
-                          response.tagName.endsWith(this.tagName) ||
-                          this.tagName.endsWith(response.tagName);
-        
-        if (tagMatches && !response.hasError) {
-          if (response.value) {
-            console.log('✅ Updating tree with response value:', response.value);
-            this.loading = false;
-            this.error = '';
-            this.updateTreeFromResponse(response.value);
-          } else {
-            console.warn('⚠️ Response has no value');
-            this.loading = false;
-            this.error = 'Response received but no value data';
-          }
-        } else if (response.hasError) {
-          console.error('❌ Tag read error:', response.errorMessage);
-          this.loading = false;
-          this.error = response.errorMessage || 'Error reading tag';
-        } else {
-          console.warn('⚠️ Response tagName mismatch:', {
-            current: this.tagName,
-            response: response.tagName
-          });
-        }
-      })
-    );
-
-    // Escuchar respuestas de escritura
     this.websocketSubscriptions.add(
-      this.websocketService.tagWriteResponse.subscribe((response: TagWriteResponse) => {
-        if (response.success) {
-          console.log('✅ Value written successfully:', response);
-          // Refrescar valores después de escribir
-          if (this.autoRefreshEnabled) {
-            this.sendReadRequest();
-          }
-        } else {
-          this.error = response.errorMessage || 'Error writing value';
-        }
+      this.websocketService.reconnectSchedule.subscribe(schedule => {
+        this.reconnectSchedule = schedule;
       })
     );
 
     // Verificar estado inicial
     this.websocketConnected = this.websocketService.isConnected();
+    this.transportLabel = TRANSPORT_LABELS[this.websocketService.getTransportKind()];
   }
 
-  toggleAutoRefresh() {
-    if (this.autoRefreshEnabled) {
-      this.startAutoUpdate();
-    } else {
-      this.stopAutoUpdate();
-    }
+  reconnectNow() {
+    this.websocketService.reconnectNow();
   }
 
   checkStatus() {
-    this.http.get<any>('/api/plc/status').subscribe({
+    this.http.get<any>(this.gatewayService.apiUrl('/api/plc/status')).subscribe({
       next: (status) => {
         this.isConnected = status.isConnected;
         this.status = `PLC: ${status.state} | IP: ${status.ipAddress}`;
@@ -245,292 +398,5 @@ export class AppComponent implements OnInit, OnDestroy {
       }
     });
   }
-
-  loadStructure() {
-    if (!this.tagName.trim()) {
-      return;
-    }
-
-    this.loading = true;
-    this.error = '';
-    this.treeData = [];
-
-    // Detener actualizaciones anteriores
-    this.stopAutoUpdate();
-
-    // Enviar petición de lectura por MQTT
-    this.sendReadRequest();
-  }
-
-  sendReadRequest() {
-    if (!this.tagName.trim()) {
-      return;
-    }
-
-    const request = {
-      tagName: this.tagName,
-      correlationId: `read-${Date.now()}`
-    };
-
-    this.mqttService.sendTagReadRequest(request).subscribe({
-      next: () => {
-        // La respuesta llegará por SignalR
-        this.loading = false;
-      },
-      error: (err) => {
-        this.loading = false;
-        this.error = err.error?.error || err.message || 'Error sending read request';
-        console.error('Error sending read request:', err);
-      }
-    });
-  }
-
-  updateTreeFromResponse(value: any) {
-    console.log('🔄 updateTreeFromResponse called with value:', value);
-    console.log('   Current treeData length:', this.treeData?.length || 0);
-    
-    if (!value) {
-      console.warn('⚠️ updateTreeFromResponse: value is null or undefined');
-      return;
-    }
-    
-    try {
-      if (!this.treeData || this.treeData.length === 0) {
-        // Primera carga, construir el árbol completo
-        console.log('🌳 Building initial tree structure');
-        this.treeData = this.buildTree(value, '');
-        this.previousData = this.deepClone(value);
-        console.log('✅ Tree built successfully, nodes:', this.treeData.length);
-      } else {
-        // Actualizar valores existentes
-        console.log('🔄 Updating existing tree values');
-        this.updateTreeValues(this.treeData, value, this.previousData);
-        this.previousData = this.deepClone(value);
-        console.log('✅ Tree values updated');
-      }
-    } catch (error) {
-      console.error('❌ Error in updateTreeFromResponse:', error);
-      this.error = `Error processing response: ${error}`;
-    }
-  }
-
-  startAutoUpdate() {
-    if (!this.autoRefreshEnabled || !this.tagName) {
-      return;
-    }
-
-    // Detener actualizaciones anteriores si existen
-    this.stopAutoUpdate();
-
-    // Enviar petición cada 5 segundos
-    this.updateSubscription = interval(5000).subscribe(() => {
-      if (this.tagName && this.autoRefreshEnabled) {
-        this.sendReadRequest();
-      }
-    });
-
-    // Enviar primera petición inmediatamente
-    this.sendReadRequest();
-  }
-
-  stopAutoUpdate() {
-    if (this.updateSubscription) {
-      this.updateSubscription.unsubscribe();
-      this.updateSubscription = undefined;
-    }
-  }
-
-  updateTreeValues(nodes: TreeNode[], newData: any, oldData: any) {
-    if (!nodes || !Array.isArray(nodes)) return;
-    
-    nodes.forEach(node => {
-      if (!node || !node.key) return;
-      
-      // Skip updating if this node is currently being edited
-      if (this.editingPaths.has(node.key)) {
-        // Still update children if they exist
-        if (node.children && Array.isArray(node.children)) {
-          this.updateTreeValues(node.children, newData, oldData);
-        }
-        return;
-      }
-      
-      const newValue = this.getValueByPath(newData, node.key);
-      const oldValue = this.getValueByPath(oldData, node.key);
-      
-      try {
-        if (JSON.stringify(newValue) !== JSON.stringify(oldValue)) {
-          node.changed = true;
-          node.previousValue = oldValue;
-          node.value = newValue;
-          
-          // Only update editValue if not currently being edited
-          if (node.editable && !this.editingPaths.has(node.key)) {
-            node.editValue = newValue;
-          }
-          
-          // Reset changed flag after animation
-          setTimeout(() => {
-            node.changed = false;
-          }, 500);
-        } else {
-          node.value = newValue;
-          // Only update editValue if not currently being edited
-          if (node.editable && !this.editingPaths.has(node.key)) {
-            node.editValue = newValue;
-          }
-        }
-      } catch (e) {
-        // Si hay error en JSON.stringify (ej: objetos circulares), solo actualizar
-        node.value = newValue;
-        if (node.editable && !this.editingPaths.has(node.key)) {
-          node.editValue = newValue;
-        }
-      }
-
-      if (node.children && Array.isArray(node.children)) {
-        this.updateTreeValues(node.children, newData, oldData);
-      }
-    });
-  }
-
-  buildTree(obj: any, path: string): TreeNode[] {
-    const nodes: TreeNode[] = [];
-
-    if (obj === null || obj === undefined) {
-      return [{ key: path || 'null', value: null, type: 'null', editable: false }];
-    }
-
-    if (Array.isArray(obj)) {
-      obj.forEach((item, index) => {
-        const newPath = path ? `${path}[${index}]` : `[${index}]`;
-        if (typeof item === 'object' && item !== null) {
-          nodes.push({
-            key: newPath,
-            value: item,
-            type: 'array',
-            children: this.buildTree(item, newPath),
-            expanded: false,  // Collapsed by default
-            editable: false
-          });
-        } else {
-          nodes.push({
-            key: newPath,
-            value: item,
-            type: typeof item,
-            editable: this.isEditableType(item),
-            editValue: item
-          });
-        }
-      });
-    } else if (typeof obj === 'object') {
-      Object.keys(obj).forEach(key => {
-        const newPath = path ? `${path}.${key}` : key;
-        const value = obj[key];
-        
-        if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
-          nodes.push({
-            key: newPath,
-            value: value,
-            type: 'object',
-            children: this.buildTree(value, newPath),
-            expanded: false,  // Collapsed by default
-            editable: false
-          });
-        } else if (Array.isArray(value)) {
-          nodes.push({
-            key: newPath,
-            value: value,
-            type: 'array',
-            children: this.buildTree(value, newPath),
-            expanded: false,  // Collapsed by default
-            editable: false
-          });
-        } else {
-          nodes.push({
-            key: newPath,
-            value: value,
-            type: typeof value,
-            editable: this.isEditableType(value),
-            editValue: value
-          });
-        }
-      });
-    } else {
-      nodes.push({
-        key: path || 'value',
-        value: obj,
-        type: typeof obj,
-        editable: this.isEditableType(obj),
-        editValue: obj
-      });
-    }
-
-    return nodes;
-  }
-
-  isEditableType(value: any): boolean {
-    return typeof value === 'number' || typeof value === 'string' || typeof value === 'boolean';
-  }
-
-  getValueByPath(obj: any, path: string): any {
-    if (!path) return obj;
-    
-    // Manejar rutas con arrays: "prop[0].subprop" -> ["prop", "0", "subprop"]
-    const parts = path.split(/[\.\[\]]/).filter(p => p !== '');
-    let current = obj;
-    
-    for (const part of parts) {
-      if (current === null || current === undefined) {
-        return undefined;
-      }
-      
-      // Si es un número, tratar como índice de array
-      const numIndex = parseInt(part, 10);
-      if (!isNaN(numIndex) && Array.isArray(current)) {
-        current = current[numIndex];
-      } else {
-        current = current[part];
-      }
-    }
-    
-    return current;
-  }
-
-  onEditingStart(path: string) {
-    this.editingPaths.add(path);
-  }
-
-  onEditingEnd(path: string) {
-    this.editingPaths.delete(path);
-  }
-
-  writeValue(data: { path: string; value: any }) {
-    if (!this.tagName || !data.path) {
-      return;
-    }
-
-    const request = {
-      tagName: this.tagName,
-      path: data.path,
-      value: data.value,
-      correlationId: `write-${Date.now()}`
-    };
-
-    this.mqttService.sendTagWriteRequest(request).subscribe({
-      next: () => {
-        console.log('✅ Write request sent successfully');
-        // La respuesta llegará por SignalR
-      },
-      error: (err) => {
-        this.error = err.error?.error || 'Error sending write request';
-        console.error('Error sending write request:', err);
-      }
-    });
-  }
-
-  deepClone(obj: any): any {
-    return JSON.parse(JSON.stringify(obj));
-  }
 }
 
@@ -0,0 +1,8 @@
+import { Routes } from '@angular/router';
+import { TagRouteComponent } from './tag-route.component';
+
+export const routes: Routes = [
+  { path: 'tags/:tagName', component: TagRouteComponent },
+  { path: '', children: [] },
+  { path: '**', redirectTo: '' }
+];
@@ -0,0 +1,141 @@
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Subscription } from 'rxjs';
+import { CHANGE_LOG_SIZES, ChangeLogEntry, ChangeLogService } from './change-log.service';
+import { matchesPathGlob, memberName } from './tag-path';
+import { downloadCsv, downloadJson, exportFileName } from './data-export';
+
+/** Con miles de entradas solo se pintan las más recientes que pasan el filtro. */
+const MAX_RENDERED = 300;
+
+/**
+ * Registro de cambios en vivo: qué miembro cambió, cuándo y de qué valor a
+ * cuál, con filtro por tag y por glob de path.
+ */
+@Component({
+  selector: 'app-change-log',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  template: `
+    <div class="log-panel">
+      <div class="log-row">
+        <strong>📜 Change log</strong>
+        <select [(ngModel)]="tagFilter" (ngModelChange)="applyFilter()">
+          <option value="">All tags</option>
+          <option *ngFor="let tag of tagNames" [value]="tag">{{ tag }}</option>
+        </select>
+        <input [(ngModel)]="pathGlob" (ngModelChange)="applyFilter()" placeholder="path glob, e.g. cavities[*].data" />
+        <button class="btn-small" (click)="changeLog.setPaused(!paused)">{{ paused ? '▶️ Resume' : '⏸️ Pause' }}</button>
+        <button class="btn-small" (click)="changeLog.clear()" [disabled]="entries.length === 0">Clear</button>
+        <label>
+          Keep
+          <select [ngModel]="maxEntries" (ngModelChange)="setMaxEntries($event)">
+            <option *ngFor="let size of sizes" [ngValue]="size">{{ size }}</option>
+          </select>
+        </label>
+        <button class="btn-small" (click)="exportCsv()" [disabled]="filtered.length === 0">⬇️ CSV</button>
+        <button class="btn-small" (click)="exportJson()" [disabled]="filtered.length === 0">⬇️ JSON</button>
+        <small>{{ filtered.length }} / {{ entries.length }}</small>
+      </div>
+
+      <div class="log-entries">
+        <div *ngFor="let entry of visible; trackBy: trackById" class="log-entry" [attr.data-kind]="entry.kind">
+          <span class="time">{{ entry.timestamp | date:'HH:mm:ss.SSS' }}</span>
+          <span class="path">{{ fullPath(entry) }}</span>
+          <span *ngIf="entry.kind === 'resized'">length {{ entry.oldValue }} → {{ entry.newValue }}</span>
+          <span *ngIf="entry.kind === 'changed'">{{ format(entry.oldValue) }} → {{ format(entry.newValue) }}</span>
+          <span *ngIf="entry.kind === 'added'">added {{ format(entry.newValue) }}</span>
+          <span *ngIf="entry.kind === 'removed'">removed (was {{ format(entry.oldValue) }})</span>
+        </div>
+        <div *ngIf="filtered.length > visible.length"><small>Showing the latest {{ visible.length }} matches</small></div>
+        <div *ngIf="entries.length === 0"><small>{{ paused ? 'Paused' : 'No changes detected yet' }}</small></div>
+      </div>
+    </div>
+  `,
+  styles: [`
+    .log-panel { margin-bottom: 20px; padding: 12px 16px; border: 1px solid #dee2e6; border-radius: 8px; font-size: 13px; }
+    .log-row { display: flex; flex-wrap: wrap; gap: 8px; align-items: center; margin-bottom: 8px; }
+    .log-row input { flex: 1; min-width: 200px; }
+    .log-entries { max-height: 260px; overflow-y: auto; font-family: 'Monaco', 'Menlo', 'Courier New', monospace; font-size: 12px; }
+    .log-entry { display: flex; gap: 10px; padding: 2px 0; border-bottom: 1px solid #f1f3f5; }
+    .log-entry[data-kind="added"] { color: #155724; }
+    .log-entry[data-kind="removed"] { color: #721c24; }
+    .time { color: #6c757d; }
+    .path { font-weight: 600; }
+  `]
+})
+export class ChangeLogComponent implements OnInit, OnDestroy {
+  readonly sizes = CHANGE_LOG_SIZES;
+  entries: ChangeLogEntry[] = [];
+  filtered: ChangeLogEntry[] = [];
+  visible: ChangeLogEntry[] = [];
+  tagNames: string[] = [];
+  tagFilter: string = '';
+  pathGlob: string = '';
+  paused: boolean = false;
+  maxEntries: number;
+  private subscriptions = new Subscription();
+
+  constructor(public changeLog: ChangeLogService) {
+    this.maxEntries = changeLog.getMaxEntries();
+  }
+
+  ngOnInit() {
+    this.subscriptions.add(this.changeLog.entries.subscribe(entries => {
+      this.entries = entries;
+      this.tagNames = [...new Set(entries.map(entry => entry.tagName))].sort();
+      this.applyFilter();
+    }));
+    this.subscriptions.add(this.changeLog.paused.subscribe(paused => this.paused = paused));
+  }
+
+  ngOnDestroy() {
+    this.subscriptions.unsubscribe();
+  }
+
+  applyFilter() {
+    this.filtered = this.entries.filter(entry =>
+      (!this.tagFilter || entry.tagName === this.tagFilter) && matchesPathGlob(entry.path, this.pathGlob)
+    );
+    this.visible = this.filtered.slice(0, MAX_RENDERED);
+  }
+
+  setMaxEntries(size: number) {
+    this.maxEntries = size;
+    this.changeLog.setMaxEntries(size);
+  }
+
+  /**
+   * Exporta lo que pasa el filtro, del más antiguo al más reciente.
+   */
+  exportCsv() {
+    const rows = [...this.filtered].reverse().map(entry =>
+      [entry.timestamp.toISOString(), entry.tagName, entry.path, entry.kind, entry.oldValue, entry.newValue]);
+    downloadCsv(this.exportName('csv'), ['timestamp', 'tag', 'path', 'kind', 'oldValue', 'newValue'], rows);
+  }
+
+  exportJson() {
+    const entries = [...this.filtered].reverse().map(({ id, ...entry }) => entry);
+    downloadJson(this.exportName('json'), entries);
+  }
+
+  fullPath(entry: ChangeLogEntry): string {
+    return memberName(entry.tagName, entry.path);
+  }
+
+  format(value: any): string {
+    if (value === undefined) {
+      return '—';
+    }
+    return typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value);
+  }
+
+  private exportName(extension: string): string {
+    return exportFileName(`change-log_${this.tagFilter || 'all-tags'}`, extension);
+  }
+
+  trackById(_index: number, entry: ChangeLogEntry): number {
+    return entry.id;
+  }
+}
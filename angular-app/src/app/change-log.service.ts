@@ -0,0 +1,96 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, skip } from 'rxjs';
+import { GatewayService } from './gateway.service';
+import { ChangeSet, isEmptyChangeSet, ValueChangeKind } from './value-diff';
+
+const SIZE_KEY = 'plc-monitor.change-log.size';
+
+export const CHANGE_LOG_SIZES = [100, 500, 1000, 5000];
+const DEFAULT_SIZE = 500;
+
+/** Además de los cambios de valor, los arrays que cambian de longitud. */
+export type ChangeLogKind = ValueChangeKind | 'resized';
+
+export interface ChangeLogEntry {
+  id: number;
+  timestamp: Date;
+  tagName: string;
+  path: string;
+  kind: ChangeLogKind;
+  /** En `resized`, las longitudes del array. */
+  oldValue?: any;
+  newValue?: any;
+}
+
+/**
+ * Registro de todos los cambios de valor detectados por los paneles, como un
+ * buffer circular: al llenarse se descartan los más antiguos. Se vacía al
+ * cambiar de gateway, porque los nombres de tag son de cada backend.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ChangeLogService {
+  private entries$ = new BehaviorSubject<ChangeLogEntry[]>([]);
+  private paused$ = new BehaviorSubject<boolean>(false);
+  private nextId = 1;
+  private maxEntries: number = this.readSize();
+
+  /** Más recientes primero. */
+  public entries = this.entries$.asObservable();
+  public paused = this.paused$.asObservable();
+
+  constructor(private gateways: GatewayService) {
+    this.gateways.activeGateway.pipe(skip(1)).subscribe(() => this.clear());
+  }
+
+  getMaxEntries(): number {
+    return this.maxEntries;
+  }
+
+  /**
+   * Añade el change set de una actualización del tag.
+   */
+  record(tagName: string, changeSet: ChangeSet): void {
+    if (this.paused$.value || isEmptyChangeSet(changeSet)) {
+      return;
+    }
+    const timestamp = new Date();
+    const recorded: ChangeLogEntry[] = [
+      ...changeSet.resized.map(resize => ({
+        id: this.nextId++,
+        timestamp,
+        tagName,
+        path: resize.path,
+        kind: 'resized' as ChangeLogKind,
+        oldValue: resize.oldLength,
+        newValue: resize.newLength
+      })),
+      ...changeSet.changes.map(change => ({ id: this.nextId++, timestamp, tagName, ...change }))
+    ];
+    this.entries$.next([...recorded.reverse(), ...this.entries$.value].slice(0, this.maxEntries));
+  }
+
+  setPaused(paused: boolean): void {
+    this.paused$.next(paused);
+  }
+
+  setMaxEntries(size: number): void {
+    this.maxEntries = size;
+    this.entries$.next(this.entries$.value.slice(0, size));
+    try {
+      localStorage.setItem(SIZE_KEY, String(size));
+    } catch (err) {
+      console.warn('⚠️ Could not persist change log size:', err);
+    }
+  }
+
+  clear(): void {
+    this.entries$.next([]);
+  }
+
+  private readSize(): number {
+    const stored = Number(localStorage.getItem(SIZE_KEY));
+    return CHANGE_LOG_SIZES.includes(stored) ? stored : DEFAULT_SIZE;
+  }
+}
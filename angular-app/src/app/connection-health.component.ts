@@ -0,0 +1,75 @@
+import { Component } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { WebSocketService } from './websocket.service';
+
+@Component({
+  selector: 'app-connection-health',
+  standalone: true,
+  imports: [CommonModule],
+  template: `
+    <div *ngIf="websocketService.health | async as health" class="health-panel" [class.stale]="health.stale">
+      <span class="health-item" title="Round-trip time of the last ping">
+        RTT <strong>{{ health.rttMs !== undefined ? health.rttMs + ' ms' : '—' }}</strong>
+      </span>
+      <span class="health-item" title="Time since the last message was received">
+        Last msg <strong>{{ formatAge(health.lastMessageAt) }}</strong>
+      </span>
+      <span class="health-item" title="Messages per second (10s window)">
+        <strong>{{ health.messagesPerSecond | number:'1.1-1' }}</strong> msg/s
+      </span>
+      <span class="health-item" title="Successful reconnects since page load">
+        Reconnects <strong>{{ health.reconnectCount }}</strong>
+      </span>
+      <span *ngIf="health.stale" class="health-item stale-warning">
+        ⚠️ Link stale
+      </span>
+      <span *ngIf="!health.stale && health.missedPongs > 0" class="health-item stale-warning">
+        ⚠️ {{ health.missedPongs }} missed pong
+      </span>
+    </div>
+  `,
+  styles: [`
+    .health-panel {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 12px;
+      align-items: center;
+      align-self: flex-end;
+      padding: 8px 12px;
+      border-radius: 6px;
+      background: #f7fafc;
+      border: 1px solid #e2e8f0;
+      color: #4a5568;
+      font-size: 12px;
+    }
+
+    .health-panel.stale {
+      background: #fff3cd;
+      border-color: #ffc107;
+    }
+
+    .health-item strong {
+      color: #2d3748;
+      font-family: 'Monaco', 'Menlo', 'Courier New', monospace;
+    }
+
+    .stale-warning {
+      color: #856404;
+      font-weight: 600;
+    }
+  `]
+})
+export class ConnectionHealthComponent {
+  constructor(public websocketService: WebSocketService) {}
+
+  formatAge(timestamp?: string): string {
+    if (!timestamp) {
+      return '—';
+    }
+    const seconds = Math.max(0, Math.round((Date.now() - new Date(timestamp).getTime()) / 1000));
+    if (seconds < 60) {
+      return `${seconds}s ago`;
+    }
+    return `${Math.floor(seconds / 60)}m ${seconds % 60}s ago`;
+  }
+}
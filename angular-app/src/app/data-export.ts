@@ -0,0 +1,49 @@
+/**
+ * Exportación de datos a ficheros CSV y JSON que se descargan desde el navegador.
+ */
+
+/**
+ * Nombre de fichero con la marca de tiempo local:
+ * ("ngpSampleCurrent", "csv") -> "ngpSampleCurrent_20260315-142501.csv".
+ * Los caracteres no válidos en un nombre de fichero se sustituyen por '_'.
+ */
+export function exportFileName(base: string, extension: string, date: Date = new Date()): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const stamp = `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`
+    + `-${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+  return `${base.replace(/[^\w.\-]+/g, '_')}_${stamp}.${extension}`;
+}
+
+/**
+ * CSV según RFC 4180: separador ',', fin de línea CRLF y comillas dobles en
+ * los campos que contienen comas, comillas o saltos de línea.
+ */
+export function toCsv(header: string[], rows: unknown[][]): string {
+  return [header, ...rows].map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+function csvField(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function downloadCsv(fileName: string, header: string[], rows: unknown[][]): void {
+  downloadFile(fileName, toCsv(header, rows), 'text/csv;charset=utf-8');
+}
+
+export function downloadJson(fileName: string, data: unknown): void {
+  downloadFile(fileName, JSON.stringify(data, null, 2), 'application/json');
+}
+
+function downloadFile(fileName: string, content: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revocar en el mismo tick puede cancelar la descarga en algunos navegadores
+  setTimeout(() => URL.revokeObjectURL(url));
+}
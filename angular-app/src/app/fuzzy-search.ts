@@ -0,0 +1,51 @@
+/**
+ * Búsqueda difusa para listas cortas (catálogo de tags): los caracteres de la
+ * consulta deben aparecer en orden, no necesariamente seguidos. "ngpsmp"
+ * encuentra "ngpSampleCurrent".
+ *
+ * Devuelve una puntuación (mayor = mejor) o null si no hay coincidencia.
+ * Premia coincidencias consecutivas, al inicio de palabra y al inicio del texto.
+ */
+export function fuzzyScore(query: string, text: string): number | null {
+  const q = query.trim().toLowerCase();
+  if (!q) {
+    return 0;
+  }
+  const t = text.toLowerCase();
+
+  // Una subcadena literal siempre gana a una coincidencia dispersa
+  const literal = t.indexOf(q);
+  if (literal >= 0) {
+    return 1000 - literal * 10 - (t.length - q.length);
+  }
+
+  let score = 0;
+  let textIndex = 0;
+  let previousMatch = -2;
+  for (const char of q) {
+    const found = t.indexOf(char, textIndex);
+    if (found < 0) {
+      return null;
+    }
+    score += 1;
+    if (found === previousMatch + 1) {
+      score += 5;
+    }
+    if (found === 0 || isWordStart(text, found)) {
+      score += 3;
+    }
+    previousMatch = found;
+    textIndex = found + 1;
+  }
+  return score - (t.length - q.length) * 0.1;
+}
+
+/**
+ * Inicio de palabra en camelCase, snake_case, rutas o espacios.
+ */
+function isWordStart(text: string, index: number): boolean {
+  const previous = text[index - 1];
+  const current = text[index];
+  return previous === '_' || previous === '.' || previous === ' ' || previous === '/'
+    || (previous === previous.toLowerCase() && current !== current.toLowerCase());
+}
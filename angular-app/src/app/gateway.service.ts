@@ -0,0 +1,88 @@
+import { Inject, Injectable } from '@angular/core';
+import { BehaviorSubject, Observable } from 'rxjs';
+import { APP_CONFIG, AppConfig, GatewayConfig } from './app-config';
+import { TagTransportConfig, transportConfigFromLocation } from './tag-transport';
+
+const STORAGE_KEY = 'plc-monitor.gateway';
+
+/**
+ * Gateway activo. Todas las llamadas REST y el transporte en tiempo real se
+ * construyen a partir de él; al cambiarlo, `WebSocketService` reconecta contra
+ * el nuevo backend y los componentes recargan sus datos.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class GatewayService {
+  private active$: BehaviorSubject<GatewayConfig>;
+
+  public activeGateway: Observable<GatewayConfig>;
+
+  constructor(@Inject(APP_CONFIG) private config: AppConfig) {
+    this.active$ = new BehaviorSubject<GatewayConfig>(this.getInitialGateway());
+    this.activeGateway = this.active$.asObservable();
+  }
+
+  getGateways(): GatewayConfig[] {
+    return this.config.gateways;
+  }
+
+  getActiveGateway(): GatewayConfig {
+    return this.active$.value;
+  }
+
+  /**
+   * Cambia de gateway y recuerda la elección para la próxima sesión.
+   */
+  select(id: string): boolean {
+    const gateway = this.config.gateways.find(g => g.id === id);
+    if (!gateway) {
+      console.warn(`⚠️ Unknown gateway: ${id}`);
+      return false;
+    }
+    if (gateway.id === this.active$.value.id) {
+      return true;
+    }
+
+    try {
+      localStorage.setItem(STORAGE_KEY, gateway.id);
+    } catch {
+      // localStorage puede no estar disponible (modo privado); el cambio sigue valiendo
+    }
+    console.log(`🔀 Switching gateway to ${gateway.name} (${gateway.restBaseUrl || 'serving host'})`);
+    this.active$.next(gateway);
+    return true;
+  }
+
+  /**
+   * '/api/plc/status' -> '<restBaseUrl>/api/plc/status' del gateway activo.
+   */
+  apiUrl(path: string): string {
+    return `${this.active$.value.restBaseUrl}${path}`;
+  }
+
+  /**
+   * Configuración de transporte del gateway. `?transport=` en la URL sigue
+   * teniendo prioridad para poder probar otro transporte (o el mock).
+   */
+  getTransportConfig(gateway: GatewayConfig = this.active$.value): TagTransportConfig {
+    const fromLocation = transportConfigFromLocation(window.location);
+    if (new URLSearchParams(window.location.search).has('transport')) {
+      return fromLocation;
+    }
+    return { ...fromLocation, kind: gateway.transport ?? 'websocket', url: gateway.wsUrl };
+  }
+
+  private getInitialGateway(): GatewayConfig {
+    let storedId: string | null = null;
+    try {
+      storedId = localStorage.getItem(STORAGE_KEY);
+    } catch {
+      storedId = null;
+    }
+    const gateways = this.config.gateways;
+    return gateways.find(g => g.id === storedId)
+      ?? gateways.find(g => g.id === this.config.defaultGatewayId)
+      ?? gateways[0];
+  }
+}
@@ -1,7 +1,8 @@
 import { Component, Input, OnChanges, SimpleChanges, ElementRef, ViewChild, AfterViewInit, Output, EventEmitter } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
-import { TreeNode, TreeNodeComponent } from './tree-node.component';
+import { isTrendable, TreeNode, TreeNodeComponent } from './tree-node.component';
+import { ChangeSet } from './value-diff';
 
 // vis-network types are included in the package
 declare var vis: {
@@ -38,6 +39,8 @@ declare var vis: {
           (writeValue)="onWriteValue($event)"
           (editingStart)="onEditingStart($event)"
           (editingEnd)="onEditingEnd($event)"
+          (pathSelected)="pathSelected.emit($event)"
+          (trendRequested)="trendRequested.emit($event)"
         ></app-tree-node>
       </div>
     </div>
@@ -92,6 +95,15 @@ declare var vis: {
 })
 export class GraphViewComponent implements OnChanges, AfterViewInit {
   @Input() treeData: TreeNode[] = [];
+  @Input() view: 'graph' | 'tree' = 'graph';
+  /** Path del miembro a centrar (grafo) o desplazar a la vista (árbol). */
+  @Input() focusPath?: string;
+  /** Última actualización de valores; si no cambia la forma, solo se repintan esos nodos. */
+  @Input() changeSet?: ChangeSet;
+  @Output() viewChange = new EventEmitter<'graph' | 'tree'>();
+  @Output() pathSelected = new EventEmitter<string>();
+  /** Path de una hoja numérica o BOOL a llevar al gráfico de tendencias (click derecho). */
+  @Output() trendRequested = new EventEmitter<string>();
   @Output() writeValue = new EventEmitter<{ path: string; value: any }>();
   @Output() editingStart = new EventEmitter<string>();
   @Output() editingEnd = new EventEmitter<string>();
@@ -100,6 +112,11 @@ export class GraphViewComponent implements OnChanges, AfterViewInit {
   network: any = null;
   showTree: boolean = false;  // Default to graph view
   selectedNodeId: string | null = null;
+  private graphNodes: any = null;
+  /** Id del nodo de vis por path del árbol. */
+  private graphNodeIds = new Map<string, string>();
+
+  constructor(private elementRef: ElementRef<HTMLElement>) {}
 
   ngAfterViewInit() {
     // Wait for vis-network to load
@@ -114,6 +131,17 @@ export class GraphViewComponent implements OnChanges, AfterViewInit {
   }
 
   ngOnChanges(changes: SimpleChanges) {
+    if (changes['view'] && (this.view === 'tree') !== this.showTree) {
+      this.showTree = this.view === 'tree';
+      if (!changes['view'].firstChange) {
+        this.onViewSwitched();
+      }
+    }
+
+    if (this.showTree && (changes['treeData'] || changes['focusPath'])) {
+      this.scrollToFocus();
+    }
+
     if (changes['treeData']) {
       if (changes['treeData'].firstChange) {
         // First change - wait for view init
@@ -123,18 +151,84 @@ export class GraphViewComponent implements OnChanges, AfterViewInit {
       this.waitForVisNetwork().then(() => {
         setTimeout(() => this.updateGraph(), 50);
       });
+    } else if (changes['changeSet'] && this.changeSet && !this.showTree) {
+      this.applyChangeSet(this.changeSet);
     }
   }
 
+  /**
+   * Repinta en el DataSet solo los nodos del change set (etiqueta con el valor
+   * nuevo y borde resaltado) en vez de regenerar el grafo entero.
+   */
+  private applyChangeSet(changeSet: ChangeSet) {
+    if (!this.network || !this.graphNodes) {
+      return;
+    }
+    const ids = [...changeSet.changes.map(change => change.path), ...changeSet.resized.map(resize => resize.path)]
+      .map(path => this.graphNodeIds.get(path || 'value'))
+      .filter((id): id is string => id !== undefined);
+    if (ids.length === 0) {
+      return;
+    }
+    const repaint = () => this.graphNodes.update(ids.map(id => {
+      const node: TreeNode = this.graphNodes.get(id).nodeData;
+      return { id, ...this.nodeAppearance(node, id === 'node_0') };
+    }));
+    repaint();
+    // El panel quita el resaltado de los nodos a los 500 ms
+    setTimeout(repaint, 600);
+  }
+
   toggleView() {
     this.showTree = !this.showTree;
-    if (!this.showTree && this.treeData.length > 0) {
+    this.viewChange.emit(this.showTree ? 'tree' : 'graph');
+    this.onViewSwitched();
+  }
+
+  private onViewSwitched() {
+    if (this.showTree) {
+      this.scrollToFocus();
+    } else if (this.treeData.length > 0) {
       this.waitForVisNetwork().then(() => {
         setTimeout(() => this.updateGraph(), 100);
       });
     }
   }
 
+  /**
+   * En la vista de árbol, lleva a pantalla el nodo de `focusPath` (el panel
+   * ya expandió sus ancestros).
+   */
+  private scrollToFocus() {
+    if (!this.focusPath) {
+      return;
+    }
+    const path = this.focusPath;
+    setTimeout(() => {
+      const element = this.elementRef.nativeElement.querySelector(`[data-path="${CSS.escape(path)}"]`);
+      element?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }, 100);
+  }
+
+  /**
+   * Selecciona y centra en el grafo el nodo de `focusPath`; false si no está.
+   */
+  private focusGraphNode(nodes: any[]): boolean {
+    const target = this.focusPath ? nodes.find((n: any) => n.nodeData?.key === this.focusPath) : undefined;
+    if (!target) {
+      return false;
+    }
+    this.network.selectNodes([target.id]);
+    this.network.focus(target.id, {
+      scale: 1.2,
+      animation: {
+        duration: 500,
+        easingFunction: 'easeInOutQuad'
+      }
+    });
+    return true;
+  }
+
   private waitForVisNetwork(): Promise<void> {
     return new Promise((resolve) => {
       if (typeof vis !== 'undefined' && vis.Network) {
@@ -225,6 +319,7 @@ export class GraphViewComponent implements OnChanges, AfterViewInit {
     }
 
     try {
+      this.graphNodeIds.clear();
       const { nodes, edges } = this.buildGraphData(this.treeData);
       
       if (nodes.length === 0) {
@@ -238,6 +333,7 @@ export class GraphViewComponent implements OnChanges, AfterViewInit {
         nodes: new vis.DataSet(nodes),
         edges: new vis.DataSet(edges)
       };
+      this.graphNodes = data.nodes;
 
       const options = {
         nodes: {
@@ -336,13 +432,16 @@ export class GraphViewComponent implements OnChanges, AfterViewInit {
         if (params.nodes.length > 0) {
           const nodeId = params.nodes[0];
           const nodeData = nodes.find((n: any) => n.id === nodeId);
+          if (nodeData) {
+            this.pathSelected.emit(nodeData.nodeData.key);
+          }
           if (nodeData && nodeData.editable) {
             this.selectedNodeId = nodeId;
             const newValue = prompt(`Enter new value for ${nodeData.label.split(':')[0]}:`, nodeData.nodeData.editValue);
             if (newValue !== null) {
               this.onWriteValue({
                 path: nodeData.nodeData.key,
-                value: newValue
+                value: this.convertInput(newValue, nodeData.nodeData.value)
               });
             }
           }
@@ -351,9 +450,19 @@ export class GraphViewComponent implements OnChanges, AfterViewInit {
         }
       });
 
-      // Fit view after network is created
+      // Click derecho sobre una hoja numérica o BOOL: llevarla al gráfico de tendencias
+      this.network.on('oncontext', (params: any) => {
+        const nodeId = this.network.getNodeAt(params.pointer.DOM);
+        const nodeData = nodeId !== undefined ? nodes.find((n: any) => n.id === nodeId) : undefined;
+        if (nodeData && isTrendable(nodeData.nodeData)) {
+          params.event.preventDefault();
+          this.trendRequested.emit(nodeData.nodeData.key);
+        }
+      });
+
+      // Fit view after network is created (o centrar el miembro del deep link)
       setTimeout(() => {
-        if (this.network) {
+        if (this.network && !this.focusGraphNode(nodes)) {
           this.network.fit({
             animation: {
               duration: 500,
@@ -376,6 +485,22 @@ export class GraphViewComponent implements OnChanges, AfterViewInit {
     }
   }
 
+  /**
+   * El prompt siempre devuelve texto: se convierte al tipo del valor actual,
+   * igual que en el editor del árbol, para que la validación vea el tipo real.
+   */
+  private convertInput(input: string, current: any): any {
+    if (typeof current === 'number') {
+      const parsed = parseFloat(input);
+      return isNaN(parsed) ? input : parsed;
+    }
+    if (typeof current === 'boolean') {
+      const lower = input.toLowerCase();
+      return lower === 'true' || lower === '1';
+    }
+    return input;
+  }
+
   buildGraphData(treeData: TreeNode[], parentId: string | null = null, nodeIdCounter: { value: number } = { value: 0 }, level: number = 0): { nodes: any[], edges: any[] } {
     const nodes: any[] = [];
     const edges: any[] = [];
@@ -383,50 +508,11 @@ export class GraphViewComponent implements OnChanges, AfterViewInit {
 
     const processNode = (node: TreeNode, parent: string | null, currentLevel: number, isRootNode: boolean = false): string => {
       const id = `node_${nodeIdCounter.value++}`;
-      
-      // Use full path for all nodes (not just display key)
-      const fullPath = node.key || '';
-      let color = '#E5E7EB'; // Light gray default
-      let label = fullPath;
-      
-      // Mark root node - show full path
-      if (isRootNode) {
-        label = fullPath;
-        color = '#1F2937'; // Dark gray/black
-      } else if (node.type === 'object') {
-        color = '#4B5563'; // Medium gray
-        label = fullPath;
-      } else if (node.type === 'array') {
-        color = '#6B7280'; // Lighter gray
-        label = `${fullPath}[${node.children?.length || 0}]`;
-      } else if (node.type === 'string') {
-        color = '#9CA3AF'; // Light gray
-        const val = this.formatValue(node.value);
-        label = `${fullPath}: ${val.length > 25 ? val.substring(0, 25) + '...' : val}`;  // Single line for compactness
-      } else if (node.type === 'number') {
-        color = '#D1D5DB'; // Very light gray
-        label = `${fullPath}: ${node.value}`;  // Single line
-      } else if (node.type === 'boolean') {
-        color = '#E5E7EB'; // Lightest gray
-        label = `${fullPath}: ${node.value}`;  // Single line
-      }
-
-      // If editable, add indicator (inline for better readability)
-      if (node.editable) {
-        label += ' ✏️';
-      }
+      this.graphNodeIds.set(node.key, id);
 
       const nodeConfig: any = {
         id: id,
-        label: label,
-        color: {
-          background: isRootNode ? '#111827' : color, // Black for root, gray for others
-          border: isRootNode ? '#374151' : (node.changed ? '#F59E0B' : (node.editable ? '#6B7280' : '#374151')),
-          highlight: {
-            background: isRootNode ? '#1F2937' : (node.editable ? '#4B5563' : '#9CA3AF'),
-            border: '#111827' // Black border on highlight
-          }
-        },
+        ...this.nodeAppearance(node, isRootNode),
         shape: isRootNode ? 'box' : (node.children ? 'box' : (node.editable ? 'diamond' : 'ellipse')),
         font: {
           color: isRootNode ? '#FFFFFF' : '#111827', // White text on root, black on others
@@ -436,15 +522,10 @@ export class GraphViewComponent implements OnChanges, AfterViewInit {
         value: isRootNode ? 20 : (node.children ? (node.children.length * 10) : (node.editable ? 8 : 5)),
         editable: node.editable,
         nodeData: node,
-        borderWidth: isRootNode ? 4 : (node.changed ? 4 : 2),
         shadow: true,
         level: currentLevel  // Set level for hierarchical layout
       };
 
-      if (node.editable) {
-        nodeConfig.title = `Click to edit: ${node.key}\nCurrent value: ${this.formatValue(node.value)}`;
-      }
-
       nodes.push(nodeConfig);
 
       // Create edge from parent
@@ -473,6 +554,64 @@ export class GraphViewComponent implements OnChanges, AfterViewInit {
     return { nodes, edges };
   }
 
+  /**
+   * Etiqueta, colores y tooltip de un nodo; dependen de su valor y de si acaba de cambiar.
+   */
+  private nodeAppearance(node: TreeNode, isRootNode: boolean): any {
+    // Use full path for all nodes (not just display key)
+    const fullPath = node.key || '';
+    let color = '#E5E7EB'; // Light gray default
+    let label = fullPath;
+    
+    // Mark root node - show full path
+    if (isRootNode) {
+      label = fullPath;
+      color = '#1F2937'; // Dark gray/black
+    } else if (node.type === 'object') {
+      color = '#4B5563'; // Medium gray
+      label = fullPath;
+    } else if (node.type === 'array') {
+      color = '#6B7280'; // Lighter gray
+      label = `${fullPath}[${node.children?.length || 0}]`;
+    } else if (node.type === 'string') {
+      color = '#9CA3AF'; // Light gray
+      const val = this.formatValue(node.value);
+      label = `${fullPath}: ${val.length > 25 ? val.substring(0, 25) + '...' : val}`;  // Single line for compactness
+    } else if (node.type === 'number') {
+      color = '#D1D5DB'; // Very light gray
+      label = `${fullPath}: ${node.value}`;  // Single line
+    } else if (node.type === 'boolean') {
+      color = '#E5E7EB'; // Lightest gray
+      label = `${fullPath}: ${node.value}`;  // Single line
+    }
+
+    // If editable, add indicator (inline for better readability)
+    if (node.editable) {
+      label += ' ✏️';
+    }
+
+    const appearance: any = {
+      label: label,
+      color: {
+        background: isRootNode ? '#111827' : color, // Black for root, gray for others
+        border: isRootNode ? '#374151' : (node.changed ? '#F59E0B' : (node.editable ? '#6B7280' : '#374151')),
+        highlight: {
+          background: isRootNode ? '#1F2937' : (node.editable ? '#4B5563' : '#9CA3AF'),
+          border: '#111827' // Black border on highlight
+        }
+      },
+      borderWidth: isRootNode ? 4 : (node.changed ? 4 : 2)
+    };
+
+    if (node.editable) {
+      appearance.title = `Click to edit: ${node.key}${node.dataType ? ` (${node.dataType})` : ''}\nCurrent value: ${this.formatValue(node.value)}`;
+    } else if (node.dataType) {
+      appearance.title = `${node.key}: ${node.dataType}`;
+    }
+
+    return appearance;
+  }
+
   formatValue(value: any): string {
     if (value === null || value === undefined) {
       return 'null';
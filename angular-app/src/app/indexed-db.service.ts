@@ -0,0 +1,102 @@
+import { Injectable } from '@angular/core';
+import { NotificationService } from './notification.service';
+
+const DB_NAME = 'plc-monitor';
+// Subir la versión al añadir un store nuevo en STORE_DEFINITIONS
+const DB_VERSION = 3;
+
+/**
+ * Object stores del navegador. Todos usan `id` (string) como clave.
+ */
+const STORE_DEFINITIONS = {
+  pendingWrites: { keyPath: 'id' },
+  snapshots: { keyPath: 'id' },
+  recipes: { keyPath: 'id' }
+} as const;
+
+export type StoreName = keyof typeof STORE_DEFINITIONS;
+
+/**
+ * Acceso mínimo basado en Promises a la base IndexedDB del SPA.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class IndexedDbService {
+  private database?: Promise<IDBDatabase>;
+
+  constructor(private notifications: NotificationService) {}
+
+  getAll<T>(storeName: StoreName): Promise<T[]> {
+    return this.request<T[]>(storeName, 'readonly', store => store.getAll());
+  }
+
+  get<T>(storeName: StoreName, id: string): Promise<T | undefined> {
+    return this.request<T | undefined>(storeName, 'readonly', store => store.get(id));
+  }
+
+  async put<T>(storeName: StoreName, value: T): Promise<void> {
+    await this.request(storeName, 'readwrite', store => store.put(value));
+  }
+
+  async delete(storeName: StoreName, id: string): Promise<void> {
+    await this.request(storeName, 'readwrite', store => store.delete(id));
+  }
+
+  async clear(storeName: StoreName): Promise<void> {
+    await this.request(storeName, 'readwrite', store => store.clear());
+  }
+
+  private async request<T>(
+    storeName: StoreName,
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    const db = await this.open();
+    return new Promise<T>((resolve, reject) => {
+      const request = operation(db.transaction(storeName, mode).objectStore(storeName));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      this.database = new Promise<IDBDatabase>((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new Error('IndexedDB is not available in this browser'));
+          return;
+        }
+
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          (Object.keys(STORE_DEFINITIONS) as StoreName[]).forEach(name => {
+            if (!db.objectStoreNames.contains(name)) {
+              db.createObjectStore(name, STORE_DEFINITIONS[name]);
+            }
+          });
+        };
+        // Otra pestaña tiene abierta una versión anterior: la actualización espera a que la cierre
+        request.onblocked = () => {
+          console.warn('⚠️ IndexedDB upgrade blocked by another open tab');
+          this.notifications.warning('Local storage upgrade is waiting: close other PLC Monitor tabs or reload them');
+        };
+        request.onsuccess = () => {
+          const db = request.result;
+          // Una pestaña con una versión más nueva quiere actualizar: cerrar para no bloquearla
+          db.onversionchange = () => {
+            db.close();
+            this.database = undefined;
+            this.notifications.warning('PLC Monitor was updated in another tab: reload this tab to keep using local storage');
+          };
+          resolve(db);
+        };
+        request.onerror = () => reject(request.error);
+      });
+      // Permitir reintentar si la apertura falla
+      this.database.catch(() => this.database = undefined);
+    }
+    return this.database;
+  }
+}
@@ -0,0 +1,197 @@
+/**
+ * Implementación mínima de RFC 6902 (JSON Patch) y RFC 6901 (JSON Pointer)
+ * para aplicar los deltas `TagDelta` que envía el servidor.
+ */
+
+export type JsonPatchOperation =
+  | { op: 'add'; path: string; value: unknown }
+  | { op: 'remove'; path: string }
+  | { op: 'replace'; path: string; value: unknown }
+  | { op: 'move'; from: string; path: string }
+  | { op: 'copy'; from: string; path: string }
+  | { op: 'test'; path: string; value: unknown };
+
+export const JSON_PATCH_OPS: JsonPatchOperation['op'][] = ['add', 'remove', 'replace', 'move', 'copy', 'test'];
+
+export class JsonPatchError extends Error {
+  constructor(message: string, readonly operation?: JsonPatchOperation) {
+    super(message);
+    this.name = 'JsonPatchError';
+  }
+}
+
+/**
+ * "/cavities/3/data" -> ["cavities", "3", "data"]; "" es el documento completo.
+ */
+export function parsePointer(pointer: string): string[] {
+  if (pointer === '') {
+    return [];
+  }
+  if (!pointer.startsWith('/')) {
+    throw new JsonPatchError(`Invalid JSON pointer "${pointer}"`);
+  }
+  return pointer.substring(1).split('/').map(token => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+/**
+ * ["cavities", "3", "data"] -> "/cavities/3/data", escapando '~' y '/'.
+ */
+export function toPointer(tokens: string[]): string {
+  return tokens.map(token => '/' + token.replace(/~/g, '~0').replace(/\//g, '~1')).join('');
+}
+
+/**
+ * Aplica el patch sin modificar el documento original: solo se copian los
+ * contenedores que están en el camino de cada cambio (copy-on-write), así un
+ * delta de una hoja no clona el UDT entero y quien guarde el valor anterior
+ * lo sigue viendo intacto.
+ */
+export function applyPatch<T>(document: T, patch: JsonPatchOperation[]): T {
+  const context = new PatchContext(document);
+  for (const operation of patch) {
+    applyOperation(context, operation);
+  }
+  return context.root;
+}
+
+class PatchContext {
+  // Contenedores ya copiados en este patch; se pueden mutar directamente
+  private copies = new Set<object>();
+
+  constructor(public root: any) {}
+
+  /**
+   * Devuelve el contenedor padre de `tokens`, copiando cada nivel del camino.
+   */
+  writableParent(tokens: string[], operation: JsonPatchOperation): { parent: any; key: string } {
+    resolveParent(this.root, tokens, operation);
+    this.root = this.copy(this.root);
+    let current = this.root;
+    for (const token of tokens.slice(0, -1)) {
+      const key = Array.isArray(current) ? toIndex(token, current.length, operation) : token;
+      current[key] = this.copy(current[key]);
+      current = current[key];
+    }
+    return { parent: current, key: tokens[tokens.length - 1] };
+  }
+
+  private copy(container: any): any {
+    if (this.copies.has(container)) {
+      return container;
+    }
+    const copy = Array.isArray(container) ? container.slice() : { ...container };
+    this.copies.add(copy);
+    return copy;
+  }
+}
+
+function applyOperation(context: PatchContext, operation: JsonPatchOperation): void {
+  switch (operation.op) {
+    case 'add':
+      add(context, parsePointer(operation.path), structuredClone(operation.value), operation);
+      break;
+    case 'remove':
+      remove(context, parsePointer(operation.path), operation);
+      break;
+    case 'replace': {
+      const tokens = parsePointer(operation.path);
+      resolve(context.root, tokens, operation);
+      if (tokens.length === 0) {
+        context.root = structuredClone(operation.value);
+        break;
+      }
+      const { parent, key } = context.writableParent(tokens, operation);
+      parent[key] = structuredClone(operation.value);
+      break;
+    }
+    case 'move': {
+      const value = remove(context, parsePointer(operation.from), operation);
+      add(context, parsePointer(operation.path), value, operation);
+      break;
+    }
+    case 'copy':
+      add(context, parsePointer(operation.path),
+        structuredClone(resolve(context.root, parsePointer(operation.from), operation)), operation);
+      break;
+    case 'test':
+      if (!deepEqual(resolve(context.root, parsePointer(operation.path), operation), operation.value)) {
+        throw new JsonPatchError(`Test failed at "${operation.path}"`, operation);
+      }
+      break;
+  }
+}
+
+function add(context: PatchContext, tokens: string[], value: unknown, operation: JsonPatchOperation): void {
+  if (tokens.length === 0) {
+    context.root = value;
+    return;
+  }
+  const { parent, key } = context.writableParent(tokens, operation);
+  if (Array.isArray(parent)) {
+    const index = key === '-' ? parent.length : toIndex(key, parent.length + 1, operation);
+    parent.splice(index, 0, value);
+  } else {
+    parent[key] = value;
+  }
+}
+
+function remove(context: PatchContext, tokens: string[], operation: JsonPatchOperation): unknown {
+  const value = resolve(context.root, tokens, operation);
+  if (tokens.length === 0) {
+    context.root = undefined;
+    return value;
+  }
+  const { parent, key } = context.writableParent(tokens, operation);
+  if (Array.isArray(parent)) {
+    parent.splice(toIndex(key, parent.length, operation), 1);
+  } else {
+    delete parent[key];
+  }
+  return value;
+}
+
+function resolve(document: any, tokens: string[], operation: JsonPatchOperation): any {
+  let current = document;
+  for (const token of tokens) {
+    if (Array.isArray(current)) {
+      current = current[toIndex(token, current.length, operation)];
+    } else if (current !== null && typeof current === 'object' && Object.prototype.hasOwnProperty.call(current, token)) {
+      current = current[token];
+    } else {
+      throw new JsonPatchError(`Path "${operation.path}" does not exist`, operation);
+    }
+  }
+  return current;
+}
+
+function resolveParent(document: any, tokens: string[], operation: JsonPatchOperation): { parent: any; key: string } {
+  const parent = resolve(document, tokens.slice(0, -1), operation);
+  if (parent === null || typeof parent !== 'object') {
+    throw new JsonPatchError(`Parent of "${operation.path}" is not a container`, operation);
+  }
+  return { parent, key: tokens[tokens.length - 1] };
+}
+
+function toIndex(token: string, limit: number, operation: JsonPatchOperation): number {
+  if (!/^(0|[1-9]\d*)$/.test(token) || Number(token) >= limit) {
+    throw new JsonPatchError(`Invalid array index "${token}" in "${operation.path}"`, operation);
+  }
+  return Number(token);
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+    return false;
+  }
+  if (Array.isArray(a) !== Array.isArray(b)) {
+    return false;
+  }
+  const left = a as Record<string, unknown>;
+  const right = b as Record<string, unknown>;
+  const leftKeys = Object.keys(left);
+  return leftKeys.length === Object.keys(right).length
+    && leftKeys.every(key => deepEqual(left[key], right[key]));
+}
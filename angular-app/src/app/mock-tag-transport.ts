@@ -0,0 +1,153 @@
+import { Observable } from 'rxjs';
+import { TagTransport, TagTransportConnection, TagTransportHandlers, TagTransportRequest } from './tag-transport';
+import { ClientMessage, ServerMessage } from './websocket-protocol';
+import { getValueByPath, setValueByPath } from './tag-path';
+
+const DEFAULT_MOCK_TAGS: Record<string, any> = {
+  mockTag: {
+    id: 1,
+    name: 'Mock pallet',
+    active: true,
+    temperature: 21.5,
+    cavities: [
+      { index: 0, present: true, weight: 12.4 },
+      { index: 1, present: false, weight: 0 }
+    ]
+  }
+};
+
+/**
+ * Transporte en memoria para desarrollar y probar la UI sin servidor.
+ *
+ * Contesta ping/subscribe/unsubscribe como `WebSocketMiddleware` y resuelve
+ * lecturas y escrituras contra un diccionario local de tags. `push` permite
+ * inyectar cualquier frame (p. ej. tipos desconocidos o mal formados).
+ */
+export class MockTagTransport implements TagTransport {
+  readonly kind = 'mock' as const;
+  readonly description = 'in-memory mock';
+  private tags: Map<string, any>;
+  private subscriptions = new Set<string>();
+  private handlers?: TagTransportHandlers;
+  private connected = false;
+
+  constructor(tags: Record<string, any> = DEFAULT_MOCK_TAGS) {
+    this.tags = new Map(Object.entries(structuredClone(tags)));
+  }
+
+  open(handlers: TagTransportHandlers): TagTransportConnection {
+    this.handlers = handlers;
+    this.subscriptions.clear();
+    this.defer(() => {
+      this.connected = true;
+      handlers.onOpen();
+    });
+
+    return {
+      send: (message: ClientMessage) => this.defer(() => this.receive(message)),
+      close: () => {
+        this.connected = false;
+        this.handlers = undefined;
+      },
+      isOpen: () => this.connected
+    };
+  }
+
+  sendRequest(request: TagTransportRequest): Observable<unknown> {
+    return new Observable(subscriber => {
+      this.defer(() => {
+        if (request.kind === 'read') {
+          this.answerRead(request.request.tagName, request.request.correlationId);
+        } else {
+          const { tagName, path, value, correlationId } = request.request;
+          this.answerWrite(tagName, path, value, correlationId);
+        }
+      });
+      subscriber.next({ correlationId: request.request.correlationId });
+      subscriber.complete();
+    });
+  }
+
+  /** Entrega un frame arbitrario al cliente, como si viniera del servidor. */
+  push(frame: unknown): void {
+    this.defer(() => this.handlers?.onMessage(frame));
+  }
+
+  /** Cambia el valor de un tag y notifica a los suscriptores. */
+  setTag(tagName: string, value: any): void {
+    this.tags.set(tagName, value);
+    if (this.subscriptions.has(tagName)) {
+      this.answerRead(tagName);
+    }
+  }
+
+  /** Simula una caída del servidor. */
+  drop(): void {
+    const handlers = this.handlers;
+    this.connected = false;
+    this.handlers = undefined;
+    this.defer(() => handlers?.onClose());
+  }
+
+  private receive(message: ClientMessage) {
+    switch (message.type) {
+      case 'ping':
+        this.emit({ type: 'pong', timestamp: message.timestamp });
+        break;
+      case 'subscribe':
+        this.subscriptions.add(message.tagName);
+        this.emit({ type: 'subscribed', tagName: message.tagName });
+        break;
+      case 'unsubscribe':
+        this.subscriptions.delete(message.tagName);
+        this.emit({ type: 'unsubscribed', tagName: message.tagName });
+        break;
+    }
+  }
+
+  private answerRead(tagName: string, correlationId?: string) {
+    const exists = this.tags.has(tagName);
+    this.emit({
+      type: 'TagReadResponse',
+      tagName,
+      value: exists ? structuredClone(this.tags.get(tagName)) : null,
+      quality: exists ? 'Good' : 'Bad',
+      timestamp: new Date().toISOString(),
+      correlationId,
+      hasError: !exists,
+      errorMessage: exists ? undefined : `Tag ${tagName} not found in mock transport`
+    });
+  }
+
+  private answerWrite(tagName: string, path: string, value: any, correlationId?: string) {
+    const tag = this.tags.get(tagName);
+    const success = tag !== undefined && getValueByPath(tag, path) !== undefined;
+    if (success) {
+      setValueByPath(tag, path, value);
+    }
+    this.emit({
+      type: 'TagWriteResponse',
+      tagName,
+      path,
+      fullTagName: `${tagName}.${path}`,
+      value,
+      success,
+      timestamp: new Date().toISOString(),
+      correlationId,
+      errorMessage: success ? undefined : `Path ${tagName}.${path} not found in mock transport`
+    });
+    if (success && this.subscriptions.has(tagName)) {
+      this.answerRead(tagName);
+    }
+  }
+
+  private emit(message: ServerMessage) {
+    if (this.connected) {
+      this.handlers?.onMessage(JSON.stringify(message));
+    }
+  }
+
+  private defer(action: () => void) {
+    setTimeout(action, 0);
+  }
+}
@@ -0,0 +1,282 @@
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { skip, Subscription, timer } from 'rxjs';
+import { MqttService, MqttStatus } from './mqtt.service';
+import { GatewayService } from './gateway.service';
+import { ApiError } from './api-error';
+
+const TOPIC_HISTORY_KEY = 'plc-monitor.mqtt-console.topics';
+const TEMPLATES_KEY = 'plc-monitor.mqtt-console.templates';
+const MAX_TOPIC_HISTORY = 15;
+const MAX_LOG_ENTRIES = 50;
+const STATUS_INTERVAL_MS = 10000;
+
+interface PayloadTemplate {
+  name: string;
+  topic: string;
+  payload: string;
+  builtIn?: boolean;
+}
+
+interface PublishLogEntry {
+  topic: string;
+  payload: string;
+  sentAt: Date;
+  durationMs: number;
+  /** Código HTTP; 0 si la petición no llegó al servidor. */
+  status: number;
+  ok: boolean;
+  message: string;
+}
+
+/**
+ * Plantillas con la forma de los mensajes que consumen los handlers MQTT del
+ * backend (`Handlers/`), para poder probarlos sin herramientas externas.
+ */
+function builtInTemplates(): PayloadTemplate[] {
+  const correlationId = `console-${Date.now()}`;
+  return [
+    {
+      name: 'TagReadRequest',
+      topic: 'plc/read-request',
+      payload: JSON.stringify({ tagName: 'ngpSampleCurrent', correlationId }, null, 2),
+      builtIn: true
+    },
+    {
+      name: 'TagWriteRequest',
+      topic: 'plc/write-request',
+      payload: JSON.stringify({ tagName: 'ngpSampleCurrent', path: 'temperature', value: 0, correlationId }, null, 2),
+      builtIn: true
+    },
+    {
+      name: 'Ignition tag values',
+      topic: 'sorba_ignition/Ignition01/tags/inputs/realtime',
+      payload: JSON.stringify([
+        {
+          path: 'MODELS_HERE/MODEL_C/RT_34/INPUTS/TORQUE',
+          value: { value: 12.5, quality: { code: 192 }, timestamp: new Date().toISOString() }
+        }
+      ], null, 2),
+      builtIn: true
+    }
+  ];
+}
+
+/**
+ * Consola para publicar en MQTT a través de `POST /api/mqtt/publish/{topic}`
+ * y ver el estado del broker.
+ */
+@Component({
+  selector: 'app-mqtt-console',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  template: `
+    <div class="console-panel">
+      <div class="console-row">
+        <strong>📡 MQTT console</strong>
+        <span *ngIf="status" [class.ok]="status.isConnected" [class.fail]="!status.isConnected">
+          {{ status.connectionName }}: {{ status.state }}
+        </span>
+        <span *ngIf="statusError" class="fail">{{ statusError }}</span>
+        <button class="btn-small" (click)="loadStatus()">🔄</button>
+      </div>
+
+      <div class="console-row">
+        <select [(ngModel)]="selectedTemplate" (ngModelChange)="applyTemplate($event)">
+          <option [ngValue]="undefined">-- Template --</option>
+          <option *ngFor="let template of templates" [ngValue]="template">
+            {{ template.name }}{{ template.builtIn ? '' : ' (saved)' }}
+          </option>
+        </select>
+        <input [(ngModel)]="templateName" placeholder="template name" />
+        <button class="btn-small" (click)="saveTemplate()" [disabled]="!templateName.trim() || !!payloadError">Save</button>
+        <button
+          *ngIf="selectedTemplate && !selectedTemplate.builtIn"
+          class="btn-small danger"
+          (click)="deleteTemplate(selectedTemplate)"
+        >Delete</button>
+      </div>
+
+      <div class="console-row">
+        <input class="topic" [(ngModel)]="topic" placeholder="topic, e.g. plc/read-request" list="mqttTopicHistory" />
+        <datalist id="mqttTopicHistory">
+          <option *ngFor="let entry of topicHistory" [value]="entry"></option>
+        </datalist>
+        <button class="btn-small" (click)="formatPayload()" [disabled]="!!payloadError">Format</button>
+        <button class="btn-small" (click)="publish()" [disabled]="publishing || !topic.trim() || !!payloadError">
+          📤 Publish
+        </button>
+      </div>
+
+      <textarea [(ngModel)]="payload" (ngModelChange)="validatePayload()" rows="8" spellcheck="false"></textarea>
+      <div *ngIf="payloadError" class="fail">{{ payloadError }}</div>
+
+      <div *ngIf="log.length > 0" class="console-log">
+        <div *ngFor="let entry of log" [class.fail]="!entry.ok">
+          {{ entry.sentAt | date:'HH:mm:ss' }} {{ entry.topic }} →
+          {{ entry.status || 'network error' }} {{ entry.message }} ({{ entry.durationMs }} ms)
+          <details><summary>payload</summary><pre>{{ entry.payload }}</pre></details>
+        </div>
+      </div>
+    </div>
+  `,
+  styles: [`
+    .console-panel { margin-bottom: 20px; padding: 12px 16px; border: 1px solid #dee2e6; border-radius: 8px; font-size: 13px; }
+    .console-row { display: flex; flex-wrap: wrap; gap: 8px; align-items: center; margin-bottom: 8px; }
+    .topic { flex: 1; min-width: 220px; }
+    textarea, pre, .console-log { font-family: 'Monaco', 'Menlo', 'Courier New', monospace; font-size: 12px; }
+    textarea { width: 100%; box-sizing: border-box; }
+    .console-log { max-height: 220px; overflow-y: auto; margin-top: 8px; }
+    pre { margin: 0; white-space: pre-wrap; }
+    .ok { color: #155724; }
+    .fail { color: #721c24; }
+  `]
+})
+export class MqttConsoleComponent implements OnInit, OnDestroy {
+  status?: MqttStatus;
+  statusError: string = '';
+  topic: string = '';
+  payload: string = '{}';
+  payloadError: string = '';
+  topicHistory: string[] = [];
+  templates: PayloadTemplate[] = [];
+  selectedTemplate?: PayloadTemplate;
+  templateName: string = '';
+  log: PublishLogEntry[] = [];
+  publishing: boolean = false;
+  private subscriptions = new Subscription();
+
+  constructor(
+    private mqttService: MqttService,
+    private gateways: GatewayService
+  ) {}
+
+  ngOnInit() {
+    this.topicHistory = this.readStored<string[]>(TOPIC_HISTORY_KEY, []);
+    this.templates = [...builtInTemplates(), ...this.readStored<PayloadTemplate[]>(TEMPLATES_KEY, [])];
+    this.subscriptions.add(timer(0, STATUS_INTERVAL_MS).subscribe(() => this.loadStatus()));
+    this.subscriptions.add(this.gateways.activeGateway.pipe(skip(1)).subscribe(() => {
+      this.status = undefined;
+      this.loadStatus();
+    }));
+  }
+
+  ngOnDestroy() {
+    this.subscriptions.unsubscribe();
+  }
+
+  loadStatus() {
+    this.mqttService.getStatus().subscribe({
+      next: (status) => {
+        this.status = status;
+        this.statusError = '';
+      },
+      error: (err: ApiError) => {
+        this.status = undefined;
+        this.statusError = `MQTT status unavailable (${err.status || 'network error'})`;
+      }
+    });
+  }
+
+  applyTemplate(template?: PayloadTemplate) {
+    if (!template) {
+      return;
+    }
+    // Las plantillas base se regeneran para obtener un correlationId nuevo
+    const fresh = template.builtIn ? builtInTemplates().find(t => t.name === template.name) ?? template : template;
+    this.topic = fresh.topic;
+    this.payload = fresh.payload;
+    this.templateName = template.builtIn ? '' : template.name;
+    this.validatePayload();
+  }
+
+  saveTemplate() {
+    const name = this.templateName.trim();
+    if (!name || this.payloadError) {
+      return;
+    }
+    const template: PayloadTemplate = { name, topic: this.topic.trim(), payload: this.payload };
+    const saved = this.userTemplates().filter(t => t.name !== name);
+    this.writeStored(TEMPLATES_KEY, [...saved, template]);
+    this.templates = [...builtInTemplates(), ...saved, template];
+    this.selectedTemplate = template;
+  }
+
+  deleteTemplate(template: PayloadTemplate) {
+    const saved = this.userTemplates().filter(t => t.name !== template.name);
+    this.writeStored(TEMPLATES_KEY, saved);
+    this.templates = [...builtInTemplates(), ...saved];
+    this.selectedTemplate = undefined;
+  }
+
+  validatePayload() {
+    try {
+      JSON.parse(this.payload);
+      this.payloadError = '';
+    } catch (err) {
+      this.payloadError = `Invalid JSON: ${(err as Error).message}`;
+    }
+  }
+
+  formatPayload() {
+    this.payload = JSON.stringify(JSON.parse(this.payload), null, 2);
+  }
+
+  publish() {
+    const topic = this.topic.trim();
+    if (!topic || this.payloadError) {
+      return;
+    }
+
+    this.rememberTopic(topic);
+    const payload = this.payload;
+    const sentAt = new Date();
+    this.publishing = true;
+    this.mqttService.publish(topic, JSON.parse(payload)).subscribe({
+      next: (result) => this.addLog({ topic, payload, sentAt, status: 200, ok: true, message: result.message }),
+      error: (err: ApiError) => this.addLog({
+        topic,
+        payload,
+        sentAt,
+        status: err.status,
+        ok: false,
+        message: err.message
+      })
+    });
+  }
+
+  private addLog(entry: Omit<PublishLogEntry, 'durationMs'>) {
+    this.publishing = false;
+    this.log = [
+      { ...entry, durationMs: Date.now() - entry.sentAt.getTime() },
+      ...this.log
+    ].slice(0, MAX_LOG_ENTRIES);
+  }
+
+  private rememberTopic(topic: string) {
+    this.topicHistory = [topic, ...this.topicHistory.filter(t => t !== topic)].slice(0, MAX_TOPIC_HISTORY);
+    this.writeStored(TOPIC_HISTORY_KEY, this.topicHistory);
+  }
+
+  private userTemplates(): PayloadTemplate[] {
+    return this.templates.filter(t => !t.builtIn);
+  }
+
+  private readStored<T>(key: string, fallback: T): T {
+    try {
+      const stored = localStorage.getItem(key);
+      return stored ? JSON.parse(stored) : fallback;
+    } catch {
+      return fallback;
+    }
+  }
+
+  private writeStored(key: string, value: unknown) {
+    try {
+      localStorage.setItem(key, JSON.stringify(value));
+    } catch (err) {
+      console.warn(`⚠️ Could not persist ${key}:`, err);
+    }
+  }
+}
@@ -1,10 +1,15 @@
 import { Injectable } from '@angular/core';
 import { HttpClient } from '@angular/common/http';
 import { Observable } from 'rxjs';
+import { GatewayService } from './gateway.service';
 
 export interface AvailableTag {
   name: string;
   type: string;
+  /** Metadatos opcionales; solo si el backend los conoce. */
+  description?: string;
+  /** Dimensiones si el tag es un array, p. ej. [64]. */
+  dimensions?: number[];
 }
 
 export interface TagReadRequest {
@@ -12,6 +17,18 @@ export interface TagReadRequest {
   correlationId?: string;
 }
 
+export interface MqttStatus {
+  connectionName: string;
+  isConnected: boolean;
+  state: string;
+}
+
+export interface MqttPublishResult {
+  message: string;
+  topic: string;
+  payload: unknown;
+}
+
 export interface TagWriteRequest {
   tagName: string;
   path: string;
@@ -23,18 +40,34 @@ export interface TagWriteRequest {
   providedIn: 'root'
 })
 export class MqttService {
-  constructor(private http: HttpClient) {}
+  constructor(
+    private http: HttpClient,
+    private gateways: GatewayService
+  ) {}
 
   getAvailableTags(): Observable<{ tags: AvailableTag[] }> {
-    return this.http.get<{ tags: AvailableTag[] }>('/api/mqtt/tags/available');
+    return this.http.get<{ tags: AvailableTag[] }>(this.gateways.apiUrl('/api/mqtt/tags/available'));
   }
 
   sendTagReadRequest(request: TagReadRequest): Observable<any> {
-    return this.http.post('/api/mqtt/tags/read-request', request);
+    return this.http.post(this.gateways.apiUrl('/api/mqtt/tags/read-request'), request);
   }
 
   sendTagWriteRequest(request: TagWriteRequest): Observable<any> {
-    return this.http.post('/api/mqtt/tags/write-request', request);
+    return this.http.post(this.gateways.apiUrl('/api/mqtt/tags/write-request'), request);
+  }
+
+  getStatus(): Observable<MqttStatus> {
+    return this.http.get<MqttStatus>(this.gateways.apiUrl('/api/mqtt/status'));
+  }
+
+  /**
+   * Publica un payload JSON en `topic`. Cada nivel del topic se codifica por
+   * separado para conservar los '/' (el endpoint usa una ruta catch-all).
+   */
+  publish(topic: string, payload: unknown): Observable<MqttPublishResult> {
+    const path = topic.split('/').map(level => encodeURIComponent(level)).join('/');
+    return this.http.post<MqttPublishResult>(this.gateways.apiUrl(`/api/mqtt/publish/${path}`), payload);
   }
 }
 
@@ -0,0 +1,76 @@
+import { Component } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { NotificationService, NotificationSeverity } from './notification.service';
+
+const SEVERITY_ICONS: Record<NotificationSeverity, string> = {
+  info: 'ℹ️',
+  success: '✅',
+  warning: '⚠️',
+  error: '❌'
+};
+
+/**
+ * Toasts apilados (esquina superior derecha) y botón con el historial de
+ * notificaciones de la sesión.
+ */
+@Component({
+  selector: 'app-notification-center',
+  standalone: true,
+  imports: [CommonModule],
+  template: `
+    <ng-container *ngIf="notifications.history | async as history">
+      <button class="btn-small" (click)="showHistory = !showHistory" title="Notification history">
+        🔔 {{ history.length }}
+      </button>
+
+      <div *ngIf="showHistory" class="history">
+        <div class="row">
+          <strong>Notifications</strong>
+          <button class="btn-small" (click)="notifications.clearHistory()" [disabled]="history.length === 0">Clear</button>
+        </div>
+        <div *ngFor="let entry of history" class="note" [attr.data-severity]="entry.severity">
+          <span>{{ icon(entry.severity) }}</span>
+          <span class="text">
+            {{ entry.message }}<ng-container *ngIf="entry.count > 1"> (×{{ entry.count }})</ng-container>
+            <small>{{ entry.timestamp | date:'HH:mm:ss' }}<ng-container *ngIf="entry.detail"> · {{ entry.detail }}</ng-container></small>
+          </span>
+          <button class="close" (click)="notifications.removeFromHistory(entry.id)">✕</button>
+        </div>
+        <div *ngIf="history.length === 0"><small>Nothing yet</small></div>
+      </div>
+    </ng-container>
+
+    <div class="toasts">
+      <div *ngFor="let toast of notifications.toasts | async" class="note" [attr.data-severity]="toast.severity">
+        <span>{{ icon(toast.severity) }}</span>
+        <span class="text">
+          {{ toast.message }}<ng-container *ngIf="toast.count > 1"> (×{{ toast.count }})</ng-container>
+          <small>{{ toast.timestamp | date:'HH:mm:ss' }}<ng-container *ngIf="toast.detail"> · {{ toast.detail }}</ng-container></small>
+        </span>
+        <button class="close" (click)="notifications.dismiss(toast.id)">✕</button>
+      </div>
+    </div>
+  `,
+  styles: [`
+    :host { position: relative; display: inline-block; }
+    .toasts { position: fixed; top: 16px; right: 16px; z-index: 100; width: 360px; display: flex; flex-direction: column; gap: 6px; }
+    .history { position: absolute; left: 0; top: 100%; z-index: 20; width: 420px; max-height: 360px; overflow-y: auto; margin-top: 4px; padding: 8px; background: white; border: 1px solid #ced4da; border-radius: 6px; box-shadow: 0 4px 12px rgba(0,0,0,.15); }
+    .row { display: flex; justify-content: space-between; margin-bottom: 6px; }
+    .note { display: flex; gap: 8px; align-items: flex-start; padding: 6px 8px; margin-bottom: 4px; border-radius: 6px; font-size: 13px; background: #e9f2ff; box-shadow: 0 1px 3px rgba(0,0,0,.1); }
+    .note[data-severity="success"] { background: #d4edda; }
+    .note[data-severity="warning"] { background: #fff3cd; }
+    .note[data-severity="error"] { background: #f8d7da; }
+    .text { flex: 1; word-break: break-word; }
+    small { display: block; color: #6c757d; font-size: 11px; }
+    .close { border: none; background: none; cursor: pointer; }
+  `]
+})
+export class NotificationCenterComponent {
+  showHistory: boolean = false;
+
+  constructor(public notifications: NotificationService) {}
+
+  icon(severity: NotificationSeverity): string {
+    return SEVERITY_ICONS[severity];
+  }
+}
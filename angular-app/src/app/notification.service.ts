@@ -0,0 +1,134 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject } from 'rxjs';
+import { describeError, isApiError } from './api-error';
+
+export type NotificationSeverity = 'info' | 'success' | 'warning' | 'error';
+
+export interface AppNotification {
+  id: number;
+  severity: NotificationSeverity;
+  message: string;
+  /** Detalle técnico opcional (estado HTTP, código, correlationId...). */
+  detail?: string;
+  timestamp: Date;
+  /** Veces que se repitió el mismo mensaje mientras estaba visible. */
+  count: number;
+}
+
+const MAX_HISTORY = 100;
+
+/** Los errores se quedan hasta que el operador los cierra. */
+const AUTO_DISMISS_MS: Record<NotificationSeverity, number | null> = {
+  info: 5000,
+  success: 4000,
+  warning: 8000,
+  error: null
+};
+
+/**
+ * Centro de notificaciones: toasts apilados y un historial que conserva todo
+ * lo notificado, para que un fallo transitorio no lo tape el siguiente.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class NotificationService {
+  private toasts$ = new BehaviorSubject<AppNotification[]>([]);
+  private history$ = new BehaviorSubject<AppNotification[]>([]);
+  private nextId = 1;
+  private timers = new Map<number, number>();
+
+  public toasts = this.toasts$.asObservable();
+  public history = this.history$.asObservable();
+
+  info(message: string, detail?: string): AppNotification {
+    return this.notify('info', message, detail);
+  }
+
+  success(message: string, detail?: string): AppNotification {
+    return this.notify('success', message, detail);
+  }
+
+  warning(message: string, detail?: string): AppNotification {
+    return this.notify('warning', message, detail);
+  }
+
+  /**
+   * Notifica un fallo con el contexto de la operación, p. ej.
+   * `error('Error loading available tags', err)`.
+   */
+  error(context: string, err?: unknown): AppNotification {
+    if (err === undefined) {
+      return this.notify('error', context);
+    }
+    const detail = isApiError(err)
+      ? [`HTTP ${err.status || 'network error'}`, err.code, err.correlationId && `correlation ${err.correlationId}`]
+          .filter(Boolean)
+          .join(' · ')
+      : undefined;
+    return this.notify('error', `${context}: ${describeError(err, 'unknown error')}`, detail);
+  }
+
+  notify(severity: NotificationSeverity, message: string, detail?: string): AppNotification {
+    // Un fallo que se repite (p. ej. en un sondeo) no debe inundar la pantalla
+    const repeated = this.toasts$.value.find(toast => toast.severity === severity && toast.message === message);
+    if (repeated) {
+      const updated = { ...repeated, detail, timestamp: new Date(), count: repeated.count + 1 };
+      this.toasts$.next(this.toasts$.value.map(toast => toast.id === repeated.id ? updated : toast));
+      this.history$.next(this.history$.value.map(entry => entry.id === repeated.id ? updated : entry));
+      this.scheduleDismiss(updated);
+      return updated;
+    }
+
+    const notification: AppNotification = {
+      id: this.nextId++,
+      severity,
+      message,
+      detail,
+      timestamp: new Date(),
+      count: 1
+    };
+    this.toasts$.next([...this.toasts$.value, notification]);
+    this.history$.next([notification, ...this.history$.value].slice(0, MAX_HISTORY));
+    this.scheduleDismiss(notification);
+    return notification;
+  }
+
+  /**
+   * Quita el toast; sigue en el historial.
+   */
+  dismiss(id: number): void {
+    this.clearTimer(id);
+    this.toasts$.next(this.toasts$.value.filter(toast => toast.id !== id));
+  }
+
+  dismissAll(): void {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+    this.toasts$.next([]);
+  }
+
+  removeFromHistory(id: number): void {
+    this.history$.next(this.history$.value.filter(entry => entry.id !== id));
+  }
+
+  clearHistory(): void {
+    this.history$.next([]);
+  }
+
+  private scheduleDismiss(notification: AppNotification) {
+    this.clearTimer(notification.id);
+    const delay = AUTO_DISMISS_MS[notification.severity];
+    if (delay !== null) {
+      this.timers.set(notification.id, window.setTimeout(() => this.dismiss(notification.id), delay));
+    }
+  }
+
+  private clearTimer(id: number) {
+    const timer = this.timers.get(id);
+    if (timer !== undefined) {
+      clearTimeout(timer);
+      this.timers.delete(id);
+    }
+  }
+}
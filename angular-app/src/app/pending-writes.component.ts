@@ -0,0 +1,176 @@
+import { Component, Input } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { PendingWritesService, PendingWrite } from './pending-writes.service';
+import { NotificationService } from './notification.service';
+
+@Component({
+  selector: 'app-pending-writes',
+  standalone: true,
+  imports: [CommonModule],
+  template: `
+    <div *ngIf="pendingWrites.entries | async as entries">
+      <div *ngIf="entries.length > 0" class="pending-panel">
+        <div class="pending-header">
+          <strong>📝 Pending writes ({{ countPending(entries) }})</strong>
+          <span *ngIf="connected && countPending(entries) > 0" class="pending-notice">
+            Connection restored — review and replay or discard each write.
+          </span>
+          <span *ngIf="!connected" class="pending-notice">
+            Offline — writes are kept here until the connection returns.
+          </span>
+          <div class="pending-actions">
+            <button class="btn-small" (click)="replayAll()" [disabled]="!connected || countPending(entries) === 0">
+              ▶️ Replay all
+            </button>
+            <button class="btn-small" (click)="clearCompleted()">Clear completed</button>
+            <button class="btn-small danger" (click)="discardAll()">Discard all</button>
+          </div>
+        </div>
+
+        <table class="pending-table">
+          <thead>
+            <tr>
+              <th>Tag</th>
+              <th>Path</th>
+              <th>Value</th>
+              <th>Queued</th>
+              <th>Status</th>
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            <tr *ngFor="let entry of entries; trackBy: trackById" [attr.data-status]="entry.status">
+              <td>
+                {{ entry.tagName }}
+                <div *ngIf="!pendingWrites.isForActiveGateway(entry)" class="pending-error">
+                  Queued on gateway "{{ entry.gatewayId }}"
+                </div>
+              </td>
+              <td class="mono">{{ entry.path }}</td>
+              <td class="mono">{{ entry.value }}</td>
+              <td>{{ entry.queuedAt | date:'HH:mm:ss' }}</td>
+              <td>
+                {{ entry.status }}
+                <div *ngIf="entry.lastError" class="pending-error">{{ entry.lastError }}</div>
+              </td>
+              <td class="row-actions">
+                <button
+                  *ngIf="entry.status === 'pending' || entry.status === 'failed'"
+                  class="btn-small"
+                  (click)="replay(entry)"
+                  [disabled]="!connected || !pendingWrites.isForActiveGateway(entry)"
+                >Replay</button>
+                <button
+                  *ngIf="entry.status !== 'replaying'"
+                  class="btn-small danger"
+                  (click)="discard(entry)"
+                >{{ entry.status === 'succeeded' ? 'Dismiss' : 'Discard' }}</button>
+              </td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+    </div>
+  `,
+  styles: [`
+    .pending-panel {
+      margin-bottom: 20px;
+      padding: 12px 16px;
+      border: 1px solid #ffc107;
+      border-radius: 8px;
+      background: #fffbf0;
+      font-size: 13px;
+    }
+
+    .pending-header {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 12px;
+      align-items: center;
+      margin-bottom: 10px;
+    }
+
+    .pending-notice {
+      color: #856404;
+    }
+
+    .pending-actions {
+      margin-left: auto;
+      display: flex;
+      gap: 6px;
+    }
+
+    .pending-table {
+      width: 100%;
+      border-collapse: collapse;
+    }
+
+    .pending-table th,
+    .pending-table td {
+      text-align: left;
+      padding: 6px 8px;
+      border-bottom: 1px solid #f0e2b6;
+      vertical-align: top;
+    }
+
+    .mono {
+      font-family: 'Monaco', 'Menlo', 'Courier New', monospace;
+    }
+
+    tr[data-status="succeeded"] {
+      color: #155724;
+    }
+
+    tr[data-status="failed"] {
+      color: #721c24;
+    }
+
+    .pending-error {
+      font-size: 11px;
+    }
+
+    .row-actions {
+      white-space: nowrap;
+    }
+  `]
+})
+export class PendingWritesComponent {
+  @Input() connected: boolean = false;
+
+  constructor(
+    public pendingWrites: PendingWritesService,
+    private notifications: NotificationService
+  ) {}
+
+  countPending(entries: PendingWrite[]): number {
+    return entries.filter(entry => entry.status === 'pending' || entry.status === 'failed').length;
+  }
+
+  replayAll() {
+    this.pendingWrites.replayAll().catch(err => this.notifications.error('Error replaying queued writes', err));
+  }
+
+  replay(entry: PendingWrite) {
+    this.pendingWrites.replay(entry.id)
+      .catch(err => this.notifications.error(`Error replaying write to ${entry.tagName}.${entry.path}`, err));
+  }
+
+  discard(entry: PendingWrite) {
+    this.pendingWrites.discard(entry.id)
+      .catch(err => this.notifications.error(`Error discarding write to ${entry.tagName}.${entry.path}`, err));
+  }
+
+  clearCompleted() {
+    this.pendingWrites.clearCompleted().catch(err => this.notifications.error('Error clearing completed writes', err));
+  }
+
+  discardAll() {
+    if (confirm('Discard all queued writes? The intended changes will be lost.')) {
+      this.pendingWrites.discardAll().catch(err => this.notifications.error('Error discarding queued writes', err));
+    }
+  }
+
+  trackById(index: number, entry: PendingWrite): string {
+    return entry.id;
+  }
+}
@@ -0,0 +1,156 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, firstValueFrom } from 'rxjs';
+import { IndexedDbService } from './indexed-db.service';
+import { WebSocketService, TagWriteResponse } from './websocket.service';
+import { isTagRequestError } from './tag-request-error';
+import { GatewayService } from './gateway.service';
+
+export type PendingWriteStatus = 'pending' | 'replaying' | 'succeeded' | 'failed';
+
+/**
+ * Escritura que el operador hizo sin conexión y que queda a la espera de
+ * revisión para reenviarla o descartarla.
+ */
+export interface PendingWrite {
+  id: string;
+  tagName: string;
+  path: string;
+  value: any;
+  queuedAt: string;
+  /** Gateway activo al encolar; solo se reenvía contra ese mismo backend. */
+  gatewayId?: string;
+  /** Motivo por el que no se pudo enviar en su momento. */
+  reason: string;
+  status: PendingWriteStatus;
+  lastError?: string;
+  completedAt?: string;
+  response?: TagWriteResponse;
+}
+
+const STORE = 'pendingWrites';
+
+@Injectable({
+  providedIn: 'root'
+})
+export class PendingWritesService {
+  private entries$ = new BehaviorSubject<PendingWrite[]>([]);
+
+  public entries = this.entries$.asObservable();
+
+  constructor(
+    private indexedDb: IndexedDbService,
+    private websocketService: WebSocketService,
+    private gateways: GatewayService
+  ) {
+    this.load();
+  }
+
+  getEntries(): PendingWrite[] {
+    return this.entries$.value;
+  }
+
+  async enqueue(tagName: string, path: string, value: any, reason: string): Promise<PendingWrite> {
+    const entry: PendingWrite = {
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      tagName,
+      path,
+      value,
+      queuedAt: new Date().toISOString(),
+      gatewayId: this.gateways.getActiveGateway().id,
+      reason,
+      status: 'pending'
+    };
+    await this.save(entry);
+    console.log(`📝 Write queued for ${tagName}.${path}:`, value);
+    return entry;
+  }
+
+  /**
+   * Reenvía una escritura encolada y registra el resultado de la
+   * `TagWriteResponse` correlacionada.
+   */
+  async replay(id: string): Promise<PendingWrite | undefined> {
+    const entry = this.find(id);
+    if (!entry || entry.status === 'replaying' || entry.status === 'succeeded') {
+      return entry;
+    }
+    if (!this.isForActiveGateway(entry)) {
+      // Reenviarla escribiría en el PLC de otra línea
+      return entry;
+    }
+
+    await this.save({ ...entry, status: 'replaying', lastError: undefined });
+
+    let result: PendingWrite;
+    try {
+      const response = await firstValueFrom(this.websocketService.writeTag(entry.tagName, entry.path, entry.value));
+      result = { ...entry, status: 'succeeded', response, lastError: undefined, completedAt: new Date().toISOString() };
+    } catch (err) {
+      const message = isTagRequestError(err) ? err.message : String(err);
+      result = { ...entry, status: 'failed', lastError: message, completedAt: new Date().toISOString() };
+    }
+
+    await this.save(result);
+    return result;
+  }
+
+  /**
+   * Reenvía en orden de encolado para respetar la intención del operador
+   * cuando varias escrituras tocan el mismo path.
+   */
+  async replayAll(): Promise<void> {
+    const replayable = this.getEntries()
+      .filter(entry => entry.status === 'pending' || entry.status === 'failed')
+      .filter(entry => this.isForActiveGateway(entry));
+    for (const entry of replayable) {
+      await this.replay(entry.id);
+    }
+  }
+
+  /**
+   * Entradas antiguas (sin gatewayId) se consideran del gateway activo.
+   */
+  isForActiveGateway(entry: PendingWrite): boolean {
+    return !entry.gatewayId || entry.gatewayId === this.gateways.getActiveGateway().id;
+  }
+
+  async discard(id: string): Promise<void> {
+    await this.indexedDb.delete(STORE, id);
+    this.entries$.next(this.getEntries().filter(entry => entry.id !== id));
+  }
+
+  async discardAll(): Promise<void> {
+    await this.indexedDb.clear(STORE);
+    this.entries$.next([]);
+  }
+
+  async clearCompleted(): Promise<void> {
+    const completed = this.getEntries().filter(entry => entry.status === 'succeeded');
+    for (const entry of completed) {
+      await this.indexedDb.delete(STORE, entry.id);
+    }
+    this.entries$.next(this.getEntries().filter(entry => entry.status !== 'succeeded'));
+  }
+
+  private find(id: string): PendingWrite | undefined {
+    return this.getEntries().find(entry => entry.id === id);
+  }
+
+  private async save(entry: PendingWrite): Promise<void> {
+    await this.indexedDb.put(STORE, entry);
+    const others = this.getEntries().filter(existing => existing.id !== entry.id);
+    this.entries$.next([...others, entry].sort((a, b) => a.queuedAt.localeCompare(b.queuedAt)));
+  }
+
+  private async load() {
+    try {
+      const entries = await this.indexedDb.getAll<PendingWrite>(STORE);
+      // Una recarga a mitad de un replay deja la entrada en 'replaying'
+      const restored = entries.map(entry =>
+        entry.status === 'replaying' ? { ...entry, status: 'pending' as const } : entry);
+      this.entries$.next(restored.sort((a, b) => a.queuedAt.localeCompare(b.queuedAt)));
+    } catch (err) {
+      console.error('❌ Error loading pending writes:', err);
+    }
+  }
+}
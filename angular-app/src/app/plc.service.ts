@@ -0,0 +1,44 @@
+import { Injectable } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable } from 'rxjs';
+import { GatewayService } from './gateway.service';
+
+export interface BatchWriteTagResult {
+  tagName: string;
+  success: boolean;
+  error?: string;
+}
+
+export interface BatchWriteResponse {
+  message: string;
+  results: BatchWriteTagResult[];
+}
+
+/**
+ * Acceso directo al driver del PLC (`PlcController`), sin pasar por MQTT.
+ * Útil para operaciones sobre varios tags en una sola petición.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class PlcService {
+  constructor(
+    private http: HttpClient,
+    private gateways: GatewayService
+  ) {}
+
+  /**
+   * Lee varios tags en una sola petición. La respuesta es un diccionario
+   * tagName -> valor; los tags que el PLC no devuelve no aparecen.
+   */
+  readTags(tagNames: string[]): Observable<Record<string, unknown>> {
+    return this.http.post<Record<string, unknown>>(this.gateways.apiUrl('/api/plc/tags/batch'), tagNames);
+  }
+
+  /**
+   * Escribe varios tags (o miembros, p. ej. 'pallet.cavities[0].weight') de una vez.
+   */
+  writeTags(values: Record<string, unknown>): Observable<BatchWriteResponse> {
+    return this.http.post<BatchWriteResponse>(this.gateways.apiUrl('/api/plc/tags/batch-write'), values);
+  }
+}
@@ -0,0 +1,231 @@
+import { Component, Input, OnChanges, SimpleChanges } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { firstValueFrom } from 'rxjs';
+import { AvailableTag } from './mqtt.service';
+import { WebSocketService } from './websocket.service';
+import { PlcService } from './plc.service';
+import { UdtSchemaService } from './udt-schema.service';
+import { NotificationService } from './notification.service';
+import { describeError } from './api-error';
+import { memberName } from './tag-path';
+import { parseRecipe, previewRecipe, RecipeChange } from './recipe';
+import { RecipeLibraryComponent } from './recipe-library.component';
+
+/** Miembros por petición de batch-write. */
+const BATCH_SIZE = 50;
+
+/**
+ * Importa una receta (fichero JSON o texto pegado) sobre un tag: muestra qué
+ * miembros cambiarían respecto al valor en vivo, deja deseleccionar cambios y
+ * los escribe con batch-write mostrando el resultado de cada path.
+ */
+@Component({
+  selector: 'app-recipe-import',
+  standalone: true,
+  imports: [CommonModule, FormsModule, RecipeLibraryComponent],
+  template: `
+    <div class="recipe-panel">
+      <div class="recipe-row">
+        <strong>🧾 Recipe import</strong>
+        <input [(ngModel)]="tagName" list="recipeTagNames" placeholder="target tag" />
+        <datalist id="recipeTagNames">
+          <option *ngFor="let tag of tags" [value]="tag.name">{{ tag.type }}</option>
+        </datalist>
+        <input type="file" accept=".json,application/json" (change)="onFileSelected($event)" />
+      </div>
+
+      <textarea [(ngModel)]="recipeText" rows="6" spellcheck="false" placeholder='Paste a partial object, e.g. { "cavities": [{ "targetWeight": 12.5 }] }'></textarea>
+      <div *ngIf="parseError" class="fail">{{ parseError }}</div>
+
+      <div class="recipe-row">
+        <button class="btn-small" (click)="preview()" [disabled]="!tagName.trim() || !recipeText.trim() || loading">
+          {{ loading ? '⏳' : '🔍' }} Preview against live
+        </button>
+        <ng-container *ngIf="changes.length > 0">
+          <button class="btn-small" (click)="selectAll(true)">Select all</button>
+          <button class="btn-small" (click)="selectAll(false)">Select none</button>
+          <button class="btn-small" (click)="apply()" [disabled]="applying || selectedCount === 0">
+            {{ applying ? '⏳' : '✏️' }} Apply {{ selectedCount }} write(s)
+          </button>
+          <small>{{ previewTagName }} · {{ countByStatus('change') }} change · {{ countByStatus('same') }} same · {{ countByStatus('invalid') }} invalid</small>
+        </ng-container>
+      </div>
+
+      <table *ngIf="changes.length > 0" class="recipe-table">
+        <thead>
+          <tr><th></th><th>Path</th><th>Live</th><th>Recipe</th><th>Result</th></tr>
+        </thead>
+        <tbody>
+          <tr *ngFor="let change of changes" [attr.data-status]="change.status">
+            <td><input type="checkbox" [(ngModel)]="change.selected" [disabled]="change.status === 'invalid' || applying" /></td>
+            <td>{{ change.path }}</td>
+            <td>{{ format(change.current) }}</td>
+            <td>{{ format(change.proposed) }}</td>
+            <td>
+              <span *ngIf="change.error" class="fail">{{ change.error }}</span>
+              <span *ngIf="change.result?.success" class="ok">✅</span>
+              <span *ngIf="change.result && !change.result.success" class="fail">❌ {{ change.result.error }}</span>
+            </td>
+          </tr>
+        </tbody>
+      </table>
+
+      <hr />
+      <app-recipe-library [tags]="tags" (applyRecipe)="load($event.tagName, $event.recipe.values)"></app-recipe-library>
+    </div>
+  `,
+  styles: [`
+    .recipe-panel { margin-bottom: 20px; padding: 12px 16px; border: 1px solid #dee2e6; border-radius: 8px; font-size: 13px; }
+    .recipe-row { display: flex; flex-wrap: wrap; gap: 8px; align-items: center; margin: 6px 0; }
+    textarea, .recipe-table { font-family: 'Monaco', 'Menlo', 'Courier New', monospace; font-size: 12px; }
+    textarea { width: 100%; box-sizing: border-box; }
+    .recipe-table { width: 100%; border-collapse: collapse; }
+    .recipe-table th, .recipe-table td { text-align: left; padding: 3px 8px; border-bottom: 1px solid #f1f3f5; }
+    tr[data-status="same"] { color: #6c757d; }
+    tr[data-status="invalid"] { background: #f8d7da; }
+    .ok { color: #155724; }
+    .fail { color: #721c24; }
+  `]
+})
+export class RecipeImportComponent implements OnChanges {
+  @Input() tags: AvailableTag[] = [];
+  /** Tag activo en el workspace; es el destino por defecto. */
+  @Input() selectedTag?: string;
+
+  tagName: string = '';
+  recipeText: string = '';
+  parseError: string = '';
+  changes: RecipeChange[] = [];
+  /** Tag contra el que se hizo la vista previa; es el que se escribe. */
+  previewTagName: string = '';
+  loading: boolean = false;
+  applying: boolean = false;
+
+  constructor(
+    private websocketService: WebSocketService,
+    private plcService: PlcService,
+    private udtSchemas: UdtSchemaService,
+    private notifications: NotificationService
+  ) {}
+
+  get selectedCount(): number {
+    return this.changes.filter(change => change.selected).length;
+  }
+
+  ngOnChanges(changes: SimpleChanges) {
+    if (changes['selectedTag'] && this.selectedTag && !this.tagName) {
+      this.tagName = this.selectedTag;
+    }
+  }
+
+  onFileSelected(event: Event) {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    if (!file) {
+      return;
+    }
+    file.text().then(
+      text => {
+        this.recipeText = text;
+        this.changes = [];
+        this.parseError = '';
+      },
+      err => this.notifications.error(`Could not read ${file.name}`, err)
+    );
+    // Permitir volver a elegir el mismo fichero
+    input.value = '';
+  }
+
+  /**
+   * Carga una receta de la biblioteca (valores por path) y la compara con el
+   * tag destino.
+   */
+  load(tagName: string, values: Record<string, unknown>) {
+    this.tagName = tagName;
+    this.recipeText = JSON.stringify(values, null, 2);
+    this.changes = [];
+    this.preview();
+  }
+
+  async preview() {
+    let recipe: any;
+    try {
+      recipe = parseRecipe(this.recipeText);
+      this.parseError = '';
+    } catch (err) {
+      this.parseError = describeError(err, 'Invalid recipe');
+      this.changes = [];
+      return;
+    }
+
+    const tagName = this.tagName.trim();
+    this.loading = true;
+    try {
+      const response = await firstValueFrom(this.websocketService.readTag(tagName));
+      this.changes = previewRecipe(recipe, response.value,
+        (path, value) => this.udtSchemas.validateWrite(tagName, path, value));
+      this.previewTagName = tagName;
+    } catch (err) {
+      this.changes = [];
+      this.notifications.error(`Error reading ${tagName} for the recipe preview`, err);
+    } finally {
+      this.loading = false;
+    }
+  }
+
+  selectAll(selected: boolean) {
+    this.changes.forEach(change => change.selected = selected && change.status !== 'invalid');
+  }
+
+  /**
+   * Escribe los cambios seleccionados en lotes de batch-write. Un lote que
+   * falla entero marca sus paths como fallidos y se sigue con el siguiente.
+   */
+  async apply() {
+    const tagName = this.previewTagName;
+    const selected = this.changes.filter(change => change.selected);
+    selected.forEach(change => change.result = undefined);
+    this.applying = true;
+
+    for (let start = 0; start < selected.length; start += BATCH_SIZE) {
+      const batch = selected.slice(start, start + BATCH_SIZE);
+      const values: Record<string, unknown> = {};
+      batch.forEach(change => values[memberName(tagName, change.path)] = change.proposed);
+      try {
+        const response = await firstValueFrom(this.plcService.writeTags(values));
+        const results = new Map(response.results.map(result => [result.tagName, result]));
+        batch.forEach(change => {
+          const result = results.get(memberName(tagName, change.path));
+          change.result = result
+            ? { success: result.success, error: result.error }
+            : { success: false, error: 'No result returned' };
+        });
+      } catch (err) {
+        const error = describeError(err, 'Batch write failed');
+        batch.forEach(change => change.result = { success: false, error });
+      }
+    }
+
+    this.applying = false;
+    const failed = selected.filter(change => !change.result?.success).length;
+    if (failed > 0) {
+      this.notifications.warning(`Recipe applied to ${tagName}: ${selected.length - failed} written, ${failed} failed`);
+    } else {
+      this.notifications.success(`Recipe applied to ${tagName}: ${selected.length} write(s)`);
+    }
+    // Lo escrito ya no es un cambio pendiente
+    selected.filter(change => change.result?.success).forEach(change => change.selected = false);
+  }
+
+  countByStatus(status: RecipeChange['status']): number {
+    return this.changes.filter(change => change.status === status).length;
+  }
+
+  format(value: any): string {
+    if (value === undefined) {
+      return '—';
+    }
+    return typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value);
+  }
+}
@@ -0,0 +1,267 @@
+import { Component, EventEmitter, Input, OnDestroy, OnInit, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { firstValueFrom, Subscription } from 'rxjs';
+import { AvailableTag } from './mqtt.service';
+import { WebSocketService } from './websocket.service';
+import { NotificationService } from './notification.service';
+import { LibraryRecipe, RecipeLibraryService } from './recipe-library.service';
+import { flattenLeaves } from './value-diff';
+import { matchesPathGlob } from './tag-path';
+import { downloadJson, exportFileName } from './data-export';
+
+interface RecipeGroup {
+  name: string;
+  udtType: string;
+  /** Más reciente primero. */
+  versions: LibraryRecipe[];
+  selectedId: string;
+  targetTag: string;
+}
+
+interface CapturedLeaf {
+  path: string;
+  value: unknown;
+  selected: boolean;
+}
+
+/**
+ * Recetas con nombre guardadas en el navegador: se crean con un subconjunto de
+ * miembros de un tag, se versionan y solo se ofrecen para tags del mismo tipo.
+ * Aplicar una receta la pasa a la vista previa de la importación.
+ */
+@Component({
+  selector: 'app-recipe-library',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  template: `
+    <div class="library-row">
+      <strong>📚 Recipe library</strong>
+      <button class="btn-small" (click)="exportLibrary()" [disabled]="groups.length === 0">⬇️ Export library</button>
+      <label class="btn-small">⬆️ Import library <input type="file" accept=".json,application/json" (change)="importLibrary($event)" hidden /></label>
+    </div>
+
+    <table *ngIf="groups.length > 0" class="library-table">
+      <tr *ngFor="let group of groups">
+        <td><strong>{{ group.name }}</strong> <small>{{ group.udtType }}</small></td>
+        <td>
+          <select [(ngModel)]="group.selectedId">
+            <option *ngFor="let version of group.versions" [value]="version.id">
+              v{{ version.version }} · {{ version.createdAt | date:'short' }} · {{ count(version) }} members
+            </option>
+          </select>
+        </td>
+        <td>
+          <select [(ngModel)]="group.targetTag">
+            <option value="">-- Apply to --</option>
+            <option *ngFor="let tag of compatibleTags(group)" [value]="tag.name">{{ tag.name }}</option>
+          </select>
+          <button class="btn-small" (click)="apply(group)" [disabled]="!group.targetTag">Preview</button>
+          <small *ngIf="compatibleTags(group).length === 0">No {{ group.udtType }} tags</small>
+        </td>
+        <td>
+          <button class="btn-small" (click)="duplicate(group)">Duplicate</button>
+          <button class="btn-small danger" (click)="deleteVersion(group)">🗑 Version</button>
+        </td>
+      </tr>
+    </table>
+
+    <details>
+      <summary>Save a recipe from a tag</summary>
+      <div class="library-row">
+        <select [(ngModel)]="sourceTag">
+          <option value="">-- Source tag --</option>
+          <option *ngFor="let tag of tags" [value]="tag.name">{{ tag.name }} ({{ tag.type }})</option>
+        </select>
+        <button class="btn-small" (click)="capture()" [disabled]="!sourceTag || capturing">{{ capturing ? '⏳' : '📥' }} Read members</button>
+        <input [(ngModel)]="captureGlob" placeholder="path glob, e.g. cavities[*].target*" />
+        <button class="btn-small" (click)="selectMatching()" [disabled]="captured.length === 0">Select matching only</button>
+      </div>
+      <div *ngIf="captured.length > 0" class="captured">
+        <label *ngFor="let leaf of captured">
+          <input type="checkbox" [(ngModel)]="leaf.selected" /> {{ leaf.path }} = {{ leaf.value }}
+        </label>
+      </div>
+      <div *ngIf="captured.length > 0" class="library-row">
+        <input [(ngModel)]="recipeName" list="recipeNames" placeholder="recipe name, e.g. Mold A standard settings" />
+        <datalist id="recipeNames">
+          <option *ngFor="let group of groupsOfType(capturedType)" [value]="group.name"></option>
+        </datalist>
+        <button class="btn-small" (click)="saveCaptured()" [disabled]="!recipeName.trim() || selectedLeafCount === 0">
+          💾 Save {{ selectedLeafCount }} member(s)
+        </button>
+        <small>An existing name saves a new version</small>
+      </div>
+    </details>
+  `,
+  styles: [`
+    .library-row { display: flex; flex-wrap: wrap; gap: 8px; align-items: center; margin: 6px 0; }
+    .library-row input:not([type]) { flex: 1; min-width: 200px; }
+    .library-table { width: 100%; border-collapse: collapse; }
+    .library-table td { padding: 3px 8px; border-bottom: 1px solid #f1f3f5; }
+    .captured { max-height: 200px; overflow-y: auto; display: flex; flex-direction: column; font-family: 'Monaco', 'Menlo', 'Courier New', monospace; font-size: 12px; }
+  `]
+})
+export class RecipeLibraryComponent implements OnInit, OnDestroy {
+  @Input() tags: AvailableTag[] = [];
+  @Output() applyRecipe = new EventEmitter<{ tagName: string; recipe: LibraryRecipe }>();
+
+  groups: RecipeGroup[] = [];
+  sourceTag: string = '';
+  capturing: boolean = false;
+  captured: CapturedLeaf[] = [];
+  /** Tipo del tag leído; la receta se guarda para ese tipo. */
+  capturedType: string = '';
+  private capturedTag: string = '';
+  captureGlob: string = '';
+  recipeName: string = '';
+  private subscription?: Subscription;
+
+  constructor(
+    private library: RecipeLibraryService,
+    private websocketService: WebSocketService,
+    private notifications: NotificationService
+  ) {}
+
+  get selectedLeafCount(): number {
+    return this.captured.filter(leaf => leaf.selected).length;
+  }
+
+  ngOnInit() {
+    this.subscription = this.library.entries.subscribe(entries => this.groups = this.group(entries));
+  }
+
+  ngOnDestroy() {
+    this.subscription?.unsubscribe();
+  }
+
+  compatibleTags(group: RecipeGroup): AvailableTag[] {
+    return this.tags.filter(tag => tag.type === group.udtType);
+  }
+
+  groupsOfType(udtType: string): RecipeGroup[] {
+    return this.groups.filter(group => group.udtType === udtType);
+  }
+
+  count(recipe: LibraryRecipe): number {
+    return Object.keys(recipe.values).length;
+  }
+
+  apply(group: RecipeGroup) {
+    const recipe = this.selected(group);
+    if (recipe && group.targetTag) {
+      this.applyRecipe.emit({ tagName: group.targetTag, recipe });
+    }
+  }
+
+  async duplicate(group: RecipeGroup) {
+    const recipe = this.selected(group);
+    const name = recipe && prompt(`Name for the copy of "${recipe.name}" v${recipe.version}:`, `${recipe.name} (copy)`);
+    if (!recipe || !name?.trim()) {
+      return;
+    }
+    try {
+      const copy = await this.library.duplicate(recipe, name);
+      this.notifications.success(`Recipe "${copy.name}" v${copy.version} saved`);
+    } catch (err) {
+      this.notifications.error('Could not duplicate recipe', err);
+    }
+  }
+
+  async deleteVersion(group: RecipeGroup) {
+    const recipe = this.selected(group);
+    if (!recipe || !confirm(`Delete "${recipe.name}" v${recipe.version}?`)) {
+      return;
+    }
+    try {
+      await this.library.delete(recipe.id);
+    } catch (err) {
+      this.notifications.error('Could not delete recipe', err);
+    }
+  }
+
+  /**
+   * Lee el tag de origen y lista sus hojas para elegir cuáles forman la receta.
+   */
+  async capture() {
+    const tagName = this.sourceTag;
+    this.capturing = true;
+    try {
+      const response = await firstValueFrom(this.websocketService.readTag(tagName));
+      this.captured = Array.from(flattenLeaves(response.value), ([path, value]) => ({ path, value, selected: true }));
+      this.capturedTag = tagName;
+      this.capturedType = this.tags.find(tag => tag.name === tagName)?.type ?? '';
+      this.selectMatching();
+    } catch (err) {
+      this.notifications.error(`Error reading ${tagName}`, err);
+    } finally {
+      this.capturing = false;
+    }
+  }
+
+  selectMatching() {
+    this.captured.forEach(leaf => leaf.selected = matchesPathGlob(leaf.path, this.captureGlob));
+  }
+
+  async saveCaptured() {
+    const values: Record<string, unknown> = {};
+    this.captured.filter(leaf => leaf.selected).forEach(leaf => values[leaf.path] = leaf.value);
+    try {
+      const recipe = await this.library.save(this.recipeName, this.capturedType, values, this.capturedTag);
+      this.notifications.success(`Recipe "${recipe.name}" v${recipe.version} saved for ${recipe.udtType}`);
+      this.recipeName = '';
+    } catch (err) {
+      this.notifications.error('Could not save recipe', err);
+    }
+  }
+
+  exportLibrary() {
+    downloadJson(exportFileName('recipe-library', 'json'), this.library.exportLibrary());
+  }
+
+  async importLibrary(event: Event) {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    // Permitir volver a elegir el mismo fichero
+    input.value = '';
+    if (!file) {
+      return;
+    }
+    try {
+      const added = await this.library.importLibrary(JSON.parse(await file.text()));
+      this.notifications.success(`Imported ${added} recipe version(s) from ${file.name}`);
+    } catch (err) {
+      this.notifications.error(`Could not import ${file.name}`, err);
+    }
+  }
+
+  private selected(group: RecipeGroup): LibraryRecipe | undefined {
+    return group.versions.find(version => version.id === group.selectedId);
+  }
+
+  /**
+   * Agrupa las versiones por nombre y tipo conservando la versión y el tag
+   * destino elegidos en cada grupo.
+   */
+  private group(entries: LibraryRecipe[]): RecipeGroup[] {
+    const previous = new Map(this.groups.map(group => [`${group.udtType}::${group.name}`, group]));
+    const groups = new Map<string, RecipeGroup>();
+    entries.forEach(recipe => {
+      const key = `${recipe.udtType}::${recipe.name}`;
+      let group = groups.get(key);
+      if (!group) {
+        const before = previous.get(key);
+        group = { name: recipe.name, udtType: recipe.udtType, versions: [], selectedId: '', targetTag: before?.targetTag ?? '' };
+        groups.set(key, group);
+      }
+      group.versions.push(recipe);
+    });
+    groups.forEach((group, key) => {
+      const before = previous.get(key);
+      group.selectedId = group.versions.some(version => version.id === before?.selectedId) && group.versions.length === before?.versions.length
+        ? before!.selectedId
+        : group.versions[0].id;
+    });
+    return Array.from(groups.values());
+  }
+}
@@ -0,0 +1,154 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject } from 'rxjs';
+import { IndexedDbService } from './indexed-db.service';
+
+/**
+ * Una versión de una receta guardada. Las versiones de una receta comparten
+ * `name` y `udtType`; cada guardado con el mismo nombre crea la siguiente.
+ */
+export interface LibraryRecipe {
+  id: string;
+  name: string;
+  /** `AvailableTag.type` al que se puede aplicar, p. ej. 'UDT_NGP_MOLD_DESIGN'. */
+  udtType: string;
+  version: number;
+  /** Valores por path de miembro: { 'cavities[3].targetWeight': 12.5 }. */
+  values: Record<string, unknown>;
+  createdAt: string;
+  /** Tag del que se tomaron los valores. */
+  sourceTag?: string;
+}
+
+/** Formato del fichero de exportación de la biblioteca. */
+const LIBRARY_FORMAT = 'plc-monitor.recipe-library';
+const LIBRARY_FORMAT_VERSION = 1;
+
+const STORE = 'recipes';
+
+/**
+ * Biblioteca de recetas con nombre guardada en IndexedDB, exportable a un
+ * fichero para llevarla a otra estación.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class RecipeLibraryService {
+  private entries$ = new BehaviorSubject<LibraryRecipe[]>([]);
+
+  /** Todas las versiones, por nombre y de la más reciente a la más antigua. */
+  public entries = this.entries$.asObservable();
+
+  constructor(private indexedDb: IndexedDbService) {
+    this.load();
+  }
+
+  getEntries(): LibraryRecipe[] {
+    return this.entries$.value;
+  }
+
+  versionsOf(name: string, udtType: string): LibraryRecipe[] {
+    return this.getEntries().filter(recipe => recipe.name === name && recipe.udtType === udtType);
+  }
+
+  /**
+   * Guarda una receta; si ya existe una con ese nombre y tipo, como su
+   * siguiente versión.
+   */
+  async save(name: string, udtType: string, values: Record<string, unknown>, sourceTag?: string): Promise<LibraryRecipe> {
+    const recipe: LibraryRecipe = {
+      id: this.createId(),
+      name: name.trim(),
+      udtType,
+      version: this.nextVersion(name.trim(), udtType),
+      values,
+      createdAt: new Date().toISOString(),
+      sourceTag
+    };
+    await this.put([recipe]);
+    return recipe;
+  }
+
+  /**
+   * Copia una versión como la versión 1 (o la siguiente) de otro nombre.
+   */
+  duplicate(recipe: LibraryRecipe, newName: string): Promise<LibraryRecipe> {
+    return this.save(newName, recipe.udtType, { ...recipe.values }, recipe.sourceTag);
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.indexedDb.delete(STORE, id);
+    this.entries$.next(this.getEntries().filter(recipe => recipe.id !== id));
+  }
+
+  /**
+   * Contenido del fichero de exportación con todas las versiones.
+   */
+  exportLibrary(): object {
+    return {
+      format: LIBRARY_FORMAT,
+      formatVersion: LIBRARY_FORMAT_VERSION,
+      exportedAt: new Date().toISOString(),
+      recipes: this.getEntries()
+    };
+  }
+
+  /**
+   * Fusiona un fichero exportado con la biblioteca local. Las versiones que ya
+   * están (mismo id) se ignoran; si otra estación usó el mismo número de
+   * versión, la importada pasa a la siguiente libre. Devuelve cuántas se añadieron.
+   */
+  async importLibrary(data: any): Promise<number> {
+    if (data?.format !== LIBRARY_FORMAT || !Array.isArray(data.recipes)) {
+      throw new Error('Not a recipe library file');
+    }
+    const known = new Set(this.getEntries().map(recipe => recipe.id));
+    const imported: LibraryRecipe[] = [];
+    for (const candidate of data.recipes) {
+      if (!this.isRecipe(candidate) || known.has(candidate.id)) {
+        continue;
+      }
+      const versions = [...this.getEntries(), ...imported]
+        .filter(recipe => recipe.name === candidate.name && recipe.udtType === candidate.udtType)
+        .map(recipe => recipe.version);
+      const version = versions.includes(candidate.version) ? Math.max(...versions) + 1 : candidate.version;
+      imported.push({ ...candidate, version });
+    }
+    await this.put(imported);
+    return imported.length;
+  }
+
+  private async put(recipes: LibraryRecipe[]) {
+    for (const recipe of recipes) {
+      await this.indexedDb.put(STORE, recipe);
+    }
+    this.entries$.next(this.sort([...this.getEntries(), ...recipes]));
+  }
+
+  private nextVersion(name: string, udtType: string): number {
+    return Math.max(0, ...this.versionsOf(name, udtType).map(recipe => recipe.version)) + 1;
+  }
+
+  private isRecipe(value: any): value is LibraryRecipe {
+    return typeof value?.id === 'string'
+      && typeof value.name === 'string'
+      && typeof value.udtType === 'string'
+      && typeof value.version === 'number'
+      && typeof value.values === 'object' && value.values !== null && !Array.isArray(value.values);
+  }
+
+  private sort(recipes: LibraryRecipe[]): LibraryRecipe[] {
+    return recipes.sort((a, b) => a.name.localeCompare(b.name) || b.version - a.version);
+  }
+
+  private createId(): string {
+    return `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  }
+
+  private async load() {
+    try {
+      this.entries$.next(this.sort(await this.indexedDb.getAll<LibraryRecipe>(STORE)));
+    } catch (err) {
+      console.error('❌ Error loading recipe library:', err);
+    }
+  }
+}
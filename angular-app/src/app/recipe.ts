@@ -0,0 +1,58 @@
+import { flattenLeaves } from './value-diff';
+import { getValueByPath } from './tag-path';
+
+/**
+ * Una receta es un objeto (parcial) con la forma del tag destino, p. ej.
+ * `{ "cavities": [{ "targetWeight": 12.5 }] }` sobre un UDT_NGP_MOLD_DESIGN.
+ * Cada hoja es una escritura.
+ */
+export type RecipeChangeStatus = 'change' | 'same' | 'invalid';
+
+export interface RecipeChange {
+  path: string;
+  current?: any;
+  proposed: any;
+  status: RecipeChangeStatus;
+  /** Por qué no se puede escribir (`invalid`). */
+  error?: string;
+  selected: boolean;
+  result?: { success: boolean; error?: string };
+}
+
+/**
+ * Interpreta el texto de un fichero o pegado; lanza Error con un mensaje
+ * legible si no es JSON o no es un objeto.
+ */
+export function parseRecipe(text: string): any {
+  let recipe: any;
+  try {
+    recipe = JSON.parse(text);
+  } catch (err) {
+    throw new Error(`Invalid JSON: ${err instanceof Error ? err.message : err}`);
+  }
+  if (typeof recipe !== 'object' || recipe === null) {
+    throw new Error('A recipe must be a JSON object or array with the shape of the target tag');
+  }
+  return recipe;
+}
+
+/**
+ * Compara cada hoja de la receta con el valor en vivo del tag. Solo quedan
+ * seleccionadas las que cambian algo y pasan la validación de tipo.
+ */
+export function previewRecipe(
+  recipe: any,
+  live: any,
+  validate: (path: string, value: any) => string | null
+): RecipeChange[] {
+  const changes: RecipeChange[] = [];
+  flattenLeaves(recipe).forEach((proposed, path) => {
+    const current = getValueByPath(live, path);
+    const error = current === undefined
+      ? 'Member not found in the live value'
+      : validate(path, proposed) ?? undefined;
+    const status: RecipeChangeStatus = error ? 'invalid' : (current === proposed ? 'same' : 'change');
+    changes.push({ path, current, proposed, status, error, selected: status === 'change' });
+  });
+  return changes;
+}
@@ -0,0 +1,47 @@
+import { Injectable, NgZone } from '@angular/core';
+import { BehaviorSubject } from 'rxjs';
+import { RefreshMode } from './refresh-strategy';
+
+export interface EffectiveRefresh {
+  paneId: string;
+  tagName: string;
+  mode: RefreshMode;
+  /** Intervalo de lectura vigente; null en modo push. */
+  intervalMs: number | null;
+}
+
+/**
+ * Visibilidad de la página (Page Visibility API) y ritmo de refresco efectivo
+ * de cada panel montado, para mostrarlo en la cabecera.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class RefreshMonitorService {
+  private pageHidden$ = new BehaviorSubject<boolean>(document.hidden);
+  private rates$ = new BehaviorSubject<EffectiveRefresh[]>([]);
+
+  public pageHidden = this.pageHidden$.asObservable();
+  public rates = this.rates$.asObservable();
+
+  constructor(zone: NgZone) {
+    document.addEventListener('visibilitychange', () => {
+      zone.run(() => this.pageHidden$.next(document.hidden));
+    });
+  }
+
+  isPageHidden(): boolean {
+    return this.pageHidden$.value;
+  }
+
+  report(rate: EffectiveRefresh): void {
+    const rates = this.rates$.value;
+    this.rates$.next(rates.some(r => r.paneId === rate.paneId)
+      ? rates.map(r => r.paneId === rate.paneId ? rate : r)
+      : [...rates, rate]);
+  }
+
+  remove(paneId: string): void {
+    this.rates$.next(this.rates$.value.filter(r => r.paneId !== paneId));
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Estrategias de refresco de un panel de tag.
+ *
+ * - `push`: solo la suscripción en tiempo real, sin lecturas periódicas; el
+ *   servidor lee los tags suscritos por su cuenta (`TagPushService`) y envía los cambios.
+ * - `polling`: una lectura cada `intervalMs`.
+ * - `adaptive`: el intervalo se acorta mientras los valores cambian, se alarga
+ *   cuando están quietos y se relaja aún más con la pestaña oculta.
+ */
+export type RefreshMode = 'push' | 'polling' | 'adaptive';
+
+export interface RefreshSettings {
+  mode: RefreshMode;
+  /** Intervalo del modo `polling`. */
+  intervalMs: number;
+}
+
+export const DEFAULT_REFRESH: RefreshSettings = { mode: 'polling', intervalMs: 5000 };
+
+export const POLLING_INTERVALS_MS = [1000, 2000, 5000, 10000, 30000, 60000];
+
+export const ADAPTIVE_MIN_MS = 1000;
+export const ADAPTIVE_MAX_MS = 30000;
+export const ADAPTIVE_INITIAL_MS = 2000;
+/** Con la pestaña oculta nunca se lee más a menudo que esto. */
+export const ADAPTIVE_HIDDEN_MS = 60000;
+
+const SLOW_DOWN_FACTOR = 1.5;
+
+/**
+ * Siguiente intervalo adaptativo: a la mitad si hubo cambios, ×1.5 si no.
+ */
+export function nextAdaptiveInterval(currentMs: number, changed: boolean): number {
+  const next = changed ? currentMs / 2 : currentMs * SLOW_DOWN_FACTOR;
+  return Math.round(Math.min(ADAPTIVE_MAX_MS, Math.max(ADAPTIVE_MIN_MS, next)));
+}
+
+export function formatRefreshInterval(ms: number): string {
+  return ms < 1000 ? `${ms}ms` : `${Number((ms / 1000).toFixed(1))}s`;
+}
+
+/**
+ * Valida lo leído de localStorage; cualquier cosa rara vuelve al valor por defecto.
+ */
+export function parseRefreshSettings(value: any): RefreshSettings {
+  const mode: RefreshMode = value?.mode === 'push' || value?.mode === 'adaptive' ? value.mode : 'polling';
+  const intervalMs = POLLING_INTERVALS_MS.includes(value?.intervalMs) ? value.intervalMs : DEFAULT_REFRESH.intervalMs;
+  return { mode, intervalMs };
+}
@@ -0,0 +1,65 @@
+import type { HubConnection } from '@microsoft/signalr';
+import { TagTransport, TagTransportConnection, TagTransportHandlers } from './tag-transport';
+import { ClientMessage } from './websocket-protocol';
+
+/**
+ * Transporte sobre un hub de SignalR, para redes cuyos proxies rompen el
+ * WebSocket crudo (SignalR negocia SSE o long polling como alternativa).
+ *
+ * Contrato del hub (`Hubs/PlcTagHub.cs`):
+ * - servidor -> cliente: método `message` con el mismo frame que envía `WebSocketMiddleware`.
+ * - cliente -> servidor: método `Send` con un `ClientMessage`.
+ *
+ * La reconexión la gestiona `WebSocketService`, no `withAutomaticReconnect`.
+ */
+export class SignalRTransport implements TagTransport {
+  readonly kind = 'signalr' as const;
+  readonly description: string;
+
+  constructor(private readonly url: string) {
+    this.description = `SignalR ${url}`;
+  }
+
+  open(handlers: TagTransportHandlers): TagTransportConnection {
+    let hub: HubConnection | undefined;
+    let closed = false;
+    let connected = false;
+
+    // Carga diferida: la librería solo entra en el bundle si se usa este transporte
+    import('@microsoft/signalr')
+      .then(signalR => {
+        if (closed) {
+          return;
+        }
+        hub = new signalR.HubConnectionBuilder().withUrl(this.url).build();
+        hub.on('message', frame => handlers.onMessage(frame));
+        hub.onclose(error => {
+          connected = false;
+          if (error) {
+            handlers.onError(error);
+          }
+          handlers.onClose();
+        });
+        return hub.start().then(() => {
+          connected = true;
+          handlers.onOpen();
+        });
+      })
+      .catch(error => {
+        handlers.onError(error);
+        handlers.onClose();
+      });
+
+    return {
+      send: (message: ClientMessage) => {
+        hub?.send('Send', message).catch(error => handlers.onError(error));
+      },
+      close: () => {
+        closed = true;
+        connected = false;
+        hub?.stop();
+      },
+      isOpen: () => connected
+    };
+  }
+}
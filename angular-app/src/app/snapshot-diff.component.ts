@@ -0,0 +1,205 @@
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { combineLatest, Subscription } from 'rxjs';
+import { SnapshotService, TagSnapshot } from './snapshot.service';
+import { GatewayService } from './gateway.service';
+import { TagSubscriptionService } from './tag-subscription.service';
+import { WebSocketService } from './websocket.service';
+import { NotificationService } from './notification.service';
+import { compareLeaves, LeafComparison, LeafComparisonKind } from './value-diff';
+import { matchesPathGlob } from './tag-path';
+
+const LIVE = 'live';
+const MAX_RENDERED = 500;
+
+/**
+ * Compara dos snapshots, o un snapshot con el valor en vivo de su tag, hoja a
+ * hoja y con los valores lado a lado.
+ */
+@Component({
+  selector: 'app-snapshot-diff',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  template: `
+    <div class="snapshot-panel">
+      <div class="snapshot-row">
+        <strong>📸 Snapshots</strong>
+        <ng-container *ngIf="snapshots.length > 0; else empty">
+          <select [(ngModel)]="leftId" (ngModelChange)="selectionChanged()">
+            <option *ngFor="let snapshot of snapshots" [value]="snapshot.id">{{ describe(snapshot) }}</option>
+          </select>
+          <span>vs</span>
+          <select [(ngModel)]="rightId" (ngModelChange)="selectionChanged()">
+            <option value="live">Live {{ left?.tagName }}</option>
+            <option *ngFor="let snapshot of snapshots" [value]="snapshot.id">{{ describe(snapshot) }}</option>
+          </select>
+          <button *ngIf="rightId === 'live'" class="btn-small" (click)="readLive()" title="Read the tag again">🔄</button>
+          <label><input type="checkbox" [(ngModel)]="changedOnly" (ngModelChange)="applyFilter()" /> Changed only</label>
+          <input [(ngModel)]="pathGlob" (ngModelChange)="applyFilter()" placeholder="path glob" />
+          <small>{{ counts['changed'] }} changed · {{ counts['added'] }} added · {{ counts['removed'] }} removed</small>
+        </ng-container>
+        <ng-template #empty><small>No snapshots yet — use 📸 Snapshot in a tag panel.</small></ng-template>
+      </div>
+
+      <table *ngIf="left" class="snapshot-table">
+        <thead>
+          <tr><th>Path</th><th>{{ left.name }}</th><th>{{ right ? right.name : 'Live' }}</th></tr>
+        </thead>
+        <tbody>
+          <tr *ngFor="let row of visible" [attr.data-kind]="row.kind">
+            <td>{{ row.path || left.tagName }}</td>
+            <td>{{ row.kind === 'added' ? '—' : format(row.left) }}</td>
+            <td>{{ row.kind === 'removed' ? '—' : format(row.right) }}</td>
+          </tr>
+        </tbody>
+      </table>
+      <small *ngIf="filtered.length > visible.length">Showing {{ visible.length }} of {{ filtered.length }} rows</small>
+      <small *ngIf="left && rightId === 'live' && liveValue === undefined">⏳ Reading {{ left.tagName }}...</small>
+
+      <details *ngIf="snapshots.length > 0">
+        <summary>Manage snapshots ({{ snapshots.length }})</summary>
+        <div *ngFor="let snapshot of snapshots" class="snapshot-row">
+          <span>{{ describe(snapshot) }}</span>
+          <button class="btn-small danger" (click)="remove(snapshot)">🗑</button>
+        </div>
+      </details>
+    </div>
+  `,
+  styles: [`
+    .snapshot-panel { margin-bottom: 20px; padding: 12px 16px; border: 1px solid #dee2e6; border-radius: 8px; font-size: 13px; }
+    .snapshot-row { display: flex; flex-wrap: wrap; gap: 8px; align-items: center; margin-bottom: 6px; }
+    .snapshot-table { width: 100%; border-collapse: collapse; font-family: 'Monaco', 'Menlo', 'Courier New', monospace; font-size: 12px; }
+    .snapshot-table th, .snapshot-table td { text-align: left; padding: 3px 8px; border-bottom: 1px solid #f1f3f5; }
+    tr[data-kind="changed"] { background: #fff3cd; }
+    tr[data-kind="added"] { background: #d4edda; }
+    tr[data-kind="removed"] { background: #f8d7da; }
+  `]
+})
+export class SnapshotDiffComponent implements OnInit, OnDestroy {
+  snapshots: TagSnapshot[] = [];
+  leftId: string = '';
+  rightId: string = LIVE;
+  left?: TagSnapshot;
+  /** Snapshot de la derecha; undefined cuando se compara con el valor en vivo. */
+  right?: TagSnapshot;
+  liveValue: any = undefined;
+  changedOnly: boolean = true;
+  pathGlob: string = '';
+  rows: LeafComparison[] = [];
+  filtered: LeafComparison[] = [];
+  visible: LeafComparison[] = [];
+  counts: Record<LeafComparisonKind, number> = { changed: 0, added: 0, removed: 0, unchanged: 0 };
+  private subscriptions = new Subscription();
+  private liveSubscription?: Subscription;
+  private liveTagName?: string;
+
+  constructor(
+    private snapshotService: SnapshotService,
+    private gateways: GatewayService,
+    private tagSubscriptions: TagSubscriptionService,
+    private websocketService: WebSocketService,
+    private notifications: NotificationService
+  ) {}
+
+  ngOnInit() {
+    this.subscriptions.add(combineLatest([this.snapshotService.entries, this.gateways.activeGateway]).subscribe(([entries]) => {
+      this.snapshots = entries.filter(snapshot => this.snapshotService.isForActiveGateway(snapshot));
+      if (!this.snapshots.some(snapshot => snapshot.id === this.leftId)) {
+        this.leftId = this.snapshots[0]?.id ?? '';
+      }
+      if (this.rightId !== LIVE && !this.snapshots.some(snapshot => snapshot.id === this.rightId)) {
+        this.rightId = LIVE;
+      }
+      this.selectionChanged();
+    }));
+  }
+
+  ngOnDestroy() {
+    this.subscriptions.unsubscribe();
+    this.stopLive();
+  }
+
+  describe(snapshot: TagSnapshot): string {
+    return `${snapshot.name} · ${snapshot.tagName} · ${new Date(snapshot.takenAt).toLocaleString()}`;
+  }
+
+  selectionChanged() {
+    this.left = this.snapshots.find(snapshot => snapshot.id === this.leftId);
+    this.right = this.rightId === LIVE ? undefined : this.snapshots.find(snapshot => snapshot.id === this.rightId);
+
+    if (this.left && this.rightId === LIVE) {
+      this.startLive(this.left.tagName);
+    } else {
+      this.stopLive();
+    }
+    this.compare();
+  }
+
+  /**
+   * Pide una lectura; la respuesta llega por el watch del tag.
+   */
+  readLive() {
+    if (!this.liveTagName) {
+      return;
+    }
+    const tagName = this.liveTagName;
+    this.websocketService.sendReadRequest(tagName, true).subscribe({
+      error: err => this.notifications.error(`Error reading ${tagName}`, err)
+    });
+  }
+
+  applyFilter() {
+    this.filtered = this.rows.filter(row =>
+      (!this.changedOnly || row.kind !== 'unchanged') && matchesPathGlob(row.path, this.pathGlob)
+    );
+    this.visible = this.filtered.slice(0, MAX_RENDERED);
+  }
+
+  async remove(snapshot: TagSnapshot) {
+    if (!confirm(`Delete snapshot "${snapshot.name}"?`)) {
+      return;
+    }
+    try {
+      await this.snapshotService.delete(snapshot.id);
+    } catch (err) {
+      this.notifications.error('Could not delete snapshot', err);
+    }
+  }
+
+  format(value: any): string {
+    return typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value);
+  }
+
+  private compare() {
+    const rightValue = this.right ? this.right.value : this.liveValue;
+    this.rows = this.left && (this.right || this.liveValue !== undefined)
+      ? compareLeaves(this.left.value, rightValue)
+      : [];
+    this.counts = { changed: 0, added: 0, removed: 0, unchanged: 0 };
+    this.rows.forEach(row => this.counts[row.kind]++);
+    this.applyFilter();
+  }
+
+  private startLive(tagName: string) {
+    if (this.liveTagName === tagName) {
+      return;
+    }
+    this.stopLive();
+    this.liveTagName = tagName;
+    this.liveSubscription = this.tagSubscriptions.watch(tagName).subscribe(response => {
+      if (!response.hasError && response.value !== undefined) {
+        this.liveValue = response.value;
+        this.compare();
+      }
+    });
+    this.readLive();
+  }
+
+  private stopLive() {
+    this.liveSubscription?.unsubscribe();
+    this.liveSubscription = undefined;
+    this.liveTagName = undefined;
+    this.liveValue = undefined;
+  }
+}
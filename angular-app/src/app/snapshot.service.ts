@@ -0,0 +1,74 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject } from 'rxjs';
+import { IndexedDbService } from './indexed-db.service';
+import { GatewayService } from './gateway.service';
+
+/**
+ * Valor completo de un tag guardado en un momento dado, p. ej. "antes del
+ * ciclo", para compararlo después con otro snapshot o con el valor en vivo.
+ */
+export interface TagSnapshot {
+  id: string;
+  name: string;
+  tagName: string;
+  /** Gateway del que se tomó; los nombres de tag son de cada backend. */
+  gatewayId: string;
+  takenAt: string;
+  value: any;
+}
+
+const STORE = 'snapshots';
+
+@Injectable({
+  providedIn: 'root'
+})
+export class SnapshotService {
+  private entries$ = new BehaviorSubject<TagSnapshot[]>([]);
+
+  /** Todos los snapshots, más recientes primero. */
+  public entries = this.entries$.asObservable();
+
+  constructor(
+    private indexedDb: IndexedDbService,
+    private gateways: GatewayService
+  ) {
+    this.load();
+  }
+
+  getEntries(): TagSnapshot[] {
+    return this.entries$.value;
+  }
+
+  isForActiveGateway(snapshot: TagSnapshot): boolean {
+    return snapshot.gatewayId === this.gateways.getActiveGateway().id;
+  }
+
+  async take(tagName: string, name: string, value: any): Promise<TagSnapshot> {
+    const snapshot: TagSnapshot = {
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      name: name.trim() || tagName,
+      tagName,
+      gatewayId: this.gateways.getActiveGateway().id,
+      takenAt: new Date().toISOString(),
+      value
+    };
+    await this.indexedDb.put(STORE, snapshot);
+    this.entries$.next([snapshot, ...this.getEntries()]);
+    console.log(`📸 Snapshot "${snapshot.name}" taken for ${tagName}`);
+    return snapshot;
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.indexedDb.delete(STORE, id);
+    this.entries$.next(this.getEntries().filter(snapshot => snapshot.id !== id));
+  }
+
+  private async load() {
+    try {
+      const entries = await this.indexedDb.getAll<TagSnapshot>(STORE);
+      this.entries$.next(entries.sort((a, b) => b.takenAt.localeCompare(a.takenAt)));
+    } catch (err) {
+      console.error('❌ Error loading snapshots:', err);
+    }
+  }
+}
@@ -0,0 +1,72 @@
+import { TagTransport, TagTransportConnection, TagTransportHandlers } from './tag-transport';
+import { ClientMessage } from './websocket-protocol';
+
+/**
+ * Transporte con Server-Sent Events para la bajada y POST para la subida.
+ *
+ * Contrato del servidor (`Middleware/SseEndpoints.cs`):
+ * - `GET {url}?connectionId={id}`: stream `text/event-stream`; cada evento
+ *   `message` lleva un frame JSON igual a los de `WebSocketMiddleware`.
+ * - `POST {url}/{id}`: cuerpo JSON con un `ClientMessage` (subscribe, ping...).
+ *
+ * `EventSource` reintenta por su cuenta; aquí se cierra ante cualquier error
+ * para que el backoff de `WebSocketService` sea el único que reconecta.
+ */
+export class SseTransport implements TagTransport {
+  readonly kind = 'sse' as const;
+  readonly description: string;
+
+  constructor(private readonly url: string) {
+    this.description = `SSE ${url}`;
+  }
+
+  open(handlers: TagTransportHandlers): TagTransportConnection {
+    const connectionId = typeof crypto !== 'undefined' && 'randomUUID' in crypto
+      ? crypto.randomUUID()
+      : Math.random().toString(36).slice(2);
+    const source = new EventSource(`${this.url}?connectionId=${encodeURIComponent(connectionId)}`);
+    let closed = false;
+
+    const close = () => {
+      if (closed) {
+        return;
+      }
+      closed = true;
+      source.close();
+      handlers.onClose();
+    };
+
+    source.onopen = () => handlers.onOpen();
+    source.onmessage = (event) => handlers.onMessage(event.data);
+    source.onerror = (error) => {
+      handlers.onError(error);
+      close();
+    };
+
+    return {
+      send: (message: ClientMessage) => {
+        fetch(`${this.url}/${encodeURIComponent(connectionId)}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(message)
+        })
+          .then(response => {
+            if (!response.ok) {
+              throw new Error(`SSE POST ${message.type} failed: HTTP ${response.status}`);
+            }
+          })
+          // Un mensaje perdido (p. ej. un subscribe) no se reintenta solo: reconectar
+          // hace que el servicio vuelva a enviar las suscripciones
+          .catch(error => {
+            handlers.onError(error);
+            close();
+          });
+      },
+      close: () => {
+        closed = true;
+        source.close();
+      },
+      isOpen: () => !closed && source.readyState === EventSource.OPEN
+    };
+  }
+}
@@ -0,0 +1,207 @@
+import { Component, ElementRef, EventEmitter, HostListener, Input, OnChanges, OnDestroy, OnInit, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { combineLatest, Subscription } from 'rxjs';
+import { AvailableTag } from './mqtt.service';
+import { TagCatalogService } from './tag-catalog.service';
+import { fuzzyScore } from './fuzzy-search';
+
+interface CatalogSection {
+  title: string;
+  tags: AvailableTag[];
+}
+
+/**
+ * Selector de tags con búsqueda difusa, filtro/agrupación por tipo UDT,
+ * favoritos y recientes. Sustituye al `<select>` plano de `AppComponent`.
+ */
+@Component({
+  selector: 'app-tag-catalog',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  template: `
+    <div class="catalog">
+      <button class="tag-select catalog-toggle" (click)="toggle()" [disabled]="disabled">
+        {{ selected || '-- Select a tag --' }} ▾
+      </button>
+
+      <div *ngIf="open" class="catalog-panel">
+        <div class="catalog-filters">
+          <input
+            [(ngModel)]="query"
+            (ngModelChange)="rebuild()"
+            (keydown.enter)="selectFirst()"
+            (keydown.escape)="open = false"
+            placeholder="Search by name, type or description"
+          />
+          <select [(ngModel)]="typeFilter" (ngModelChange)="rebuild()">
+            <option value="">All types</option>
+            <option *ngFor="let type of types" [value]="type">{{ type }}</option>
+          </select>
+          <label><input type="checkbox" [(ngModel)]="groupByType" (ngModelChange)="rebuild()" /> Group</label>
+        </div>
+
+        <div class="catalog-list">
+          <ng-container *ngFor="let section of sections">
+            <div class="catalog-section">{{ section.title }} ({{ section.tags.length }})</div>
+            <div
+              *ngFor="let tag of section.tags"
+              class="catalog-item"
+              [class.active]="tag.name === selected"
+              (click)="select(tag)"
+            >
+              <button class="star" (click)="toggleFavorite($event, tag)" [title]="catalog.isFavorite(tag.name) ? 'Unstar' : 'Star'">
+                {{ catalog.isFavorite(tag.name) ? '★' : '☆' }}
+              </button>
+              <span class="name">{{ tag.name }}{{ formatDimensions(tag) }}</span>
+              <span class="meta">{{ tag.type }}<ng-container *ngIf="tag.description"> · {{ tag.description }}</ng-container></span>
+            </div>
+          </ng-container>
+          <div *ngIf="sections.length === 0" class="meta">No tags match "{{ query }}"</div>
+        </div>
+      </div>
+    </div>
+  `,
+  styles: [`
+    .catalog { position: relative; }
+    .catalog-toggle { min-width: 260px; text-align: left; background: white; cursor: pointer; }
+    .catalog-panel { position: absolute; z-index: 10; top: 100%; left: 0; width: 520px; margin-top: 4px; padding: 8px; background: white; border: 1px solid #ced4da; border-radius: 6px; box-shadow: 0 4px 12px rgba(0,0,0,.15); }
+    .catalog-filters { display: flex; gap: 6px; align-items: center; margin-bottom: 6px; font-size: 12px; }
+    .catalog-filters input:not([type]) { flex: 1; padding: 4px 6px; }
+    .catalog-list { max-height: 360px; overflow-y: auto; }
+    .catalog-section { margin-top: 6px; font-size: 11px; font-weight: bold; color: #6c757d; text-transform: uppercase; }
+    .catalog-item { display: flex; gap: 8px; align-items: baseline; padding: 3px 4px; border-radius: 4px; cursor: pointer; }
+    .catalog-item:hover, .catalog-item.active { background: #e9f2ff; }
+    .star { border: none; background: none; cursor: pointer; color: #f0ad4e; padding: 0; }
+    .name { font-family: 'Monaco', 'Menlo', 'Courier New', monospace; font-size: 13px; }
+    .meta { font-size: 11px; color: #6c757d; }
+  `]
+})
+export class TagCatalogComponent implements OnInit, OnChanges, OnDestroy {
+  @Input() tags: AvailableTag[] = [];
+  @Input() selected: string = '';
+  @Input() disabled: boolean = false;
+  @Output() tagSelected = new EventEmitter<string>();
+
+  open: boolean = false;
+  query: string = '';
+  typeFilter: string = '';
+  groupByType: boolean = true;
+  types: string[] = [];
+  sections: CatalogSection[] = [];
+  private favorites: string[] = [];
+  private recents: string[] = [];
+  private subscription?: Subscription;
+
+  constructor(
+    public catalog: TagCatalogService,
+    private elementRef: ElementRef<HTMLElement>
+  ) {}
+
+  ngOnInit() {
+    this.subscription = combineLatest([this.catalog.favorites, this.catalog.recents]).subscribe(([favorites, recents]) => {
+      this.favorites = favorites;
+      this.recents = recents;
+      this.rebuild();
+    });
+  }
+
+  ngOnChanges() {
+    this.types = Array.from(new Set(this.tags.map(tag => tag.type))).sort();
+    if (this.typeFilter && !this.types.includes(this.typeFilter)) {
+      this.typeFilter = '';
+    }
+    this.rebuild();
+  }
+
+  ngOnDestroy() {
+    this.subscription?.unsubscribe();
+  }
+
+  @HostListener('document:click', ['$event'])
+  onDocumentClick(event: MouseEvent) {
+    if (this.open && !this.elementRef.nativeElement.contains(event.target as Node)) {
+      this.open = false;
+    }
+  }
+
+  toggle() {
+    this.open = !this.open;
+  }
+
+  select(tag: AvailableTag) {
+    this.open = false;
+    this.catalog.recordUse(tag.name);
+    this.tagSelected.emit(tag.name);
+  }
+
+  selectFirst() {
+    const first = this.sections[0]?.tags[0];
+    if (first) {
+      this.select(first);
+    }
+  }
+
+  toggleFavorite(event: MouseEvent, tag: AvailableTag) {
+    event.stopPropagation();
+    this.catalog.toggleFavorite(tag.name);
+  }
+
+  formatDimensions(tag: AvailableTag): string {
+    return tag.dimensions?.length ? `[${tag.dimensions.join(',')}]` : '';
+  }
+
+  /**
+   * Sin búsqueda: favoritos, recientes y el catálogo completo. Con búsqueda:
+   * solo resultados, ordenados por puntuación.
+   */
+  rebuild() {
+    const candidates = this.tags.filter(tag => !this.typeFilter || tag.type === this.typeFilter);
+
+    if (this.query.trim()) {
+      const ranked = candidates
+        .map(tag => ({ tag, score: this.score(tag) }))
+        .filter((entry): entry is { tag: AvailableTag; score: number } => entry.score !== null)
+        .sort((a, b) => b.score - a.score)
+        .map(entry => entry.tag);
+      this.sections = this.group('Results', ranked);
+      return;
+    }
+
+    const byName = new Map(candidates.map(tag => [tag.name, tag]));
+    const pick = (names: string[]) => names
+      .map(name => byName.get(name))
+      .filter((tag): tag is AvailableTag => tag !== undefined);
+
+    this.sections = [
+      { title: '★ Favorites', tags: pick(this.favorites) },
+      { title: '🕘 Recent', tags: pick(this.recents) },
+      ...this.group('All tags', [...candidates].sort((a, b) => a.name.localeCompare(b.name)))
+    ].filter(section => section.tags.length > 0);
+  }
+
+  private group(title: string, tags: AvailableTag[]): CatalogSection[] {
+    if (!this.groupByType) {
+      return tags.length > 0 ? [{ title, tags }] : [];
+    }
+    const groups = new Map<string, AvailableTag[]>();
+    tags.forEach(tag => groups.set(tag.type, [...(groups.get(tag.type) ?? []), tag]));
+    return Array.from(groups, ([type, grouped]) => ({ title: type, tags: grouped }));
+  }
+
+  /**
+   * El nombre pesa más que el tipo o la descripción.
+   */
+  private score(tag: AvailableTag): number | null {
+    const scores = [
+      fuzzyScore(this.query, tag.name),
+      this.halve(fuzzyScore(this.query, tag.type)),
+      this.halve(tag.description ? fuzzyScore(this.query, tag.description) : null)
+    ].filter((score): score is number => score !== null);
+    return scores.length > 0 ? Math.max(...scores) : null;
+  }
+
+  private halve(score: number | null): number | null {
+    return score === null ? null : score / 2;
+  }
+}
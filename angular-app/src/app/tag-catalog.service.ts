@@ -0,0 +1,69 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject } from 'rxjs';
+import { GatewayService } from './gateway.service';
+
+const FAVORITES_PREFIX = 'plc-monitor.tag-favorites.';
+const RECENTS_PREFIX = 'plc-monitor.tag-recents.';
+const MAX_RECENTS = 10;
+
+/**
+ * Favoritos y tags usados recientemente, guardados en localStorage por gateway
+ * (cada backend tiene su propio catálogo de tags).
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class TagCatalogService {
+  private favorites$ = new BehaviorSubject<string[]>([]);
+  private recents$ = new BehaviorSubject<string[]>([]);
+
+  public favorites = this.favorites$.asObservable();
+  public recents = this.recents$.asObservable();
+
+  constructor(private gateways: GatewayService) {
+    this.gateways.activeGateway.subscribe(() => this.load());
+  }
+
+  isFavorite(tagName: string): boolean {
+    return this.favorites$.value.includes(tagName);
+  }
+
+  toggleFavorite(tagName: string): void {
+    const favorites = this.isFavorite(tagName)
+      ? this.favorites$.value.filter(name => name !== tagName)
+      : [...this.favorites$.value, tagName];
+    this.favorites$.next(favorites);
+    this.store(FAVORITES_PREFIX, favorites);
+  }
+
+  /**
+   * Registra que el usuario abrió un tag; el más reciente queda primero.
+   */
+  recordUse(tagName: string): void {
+    const recents = [tagName, ...this.recents$.value.filter(name => name !== tagName)].slice(0, MAX_RECENTS);
+    this.recents$.next(recents);
+    this.store(RECENTS_PREFIX, recents);
+  }
+
+  private load() {
+    this.favorites$.next(this.read(FAVORITES_PREFIX));
+    this.recents$.next(this.read(RECENTS_PREFIX));
+  }
+
+  private read(prefix: string): string[] {
+    try {
+      const stored = JSON.parse(localStorage.getItem(prefix + this.gateways.getActiveGateway().id) ?? '[]');
+      return Array.isArray(stored) ? stored.filter((name): name is string => typeof name === 'string') : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private store(prefix: string, names: string[]) {
+    try {
+      localStorage.setItem(prefix + this.gateways.getActiveGateway().id, JSON.stringify(names));
+    } catch (err) {
+      console.warn('⚠️ Could not persist tag catalog preferences:', err);
+    }
+  }
+}
@@ -0,0 +1,648 @@
+import { Component, Input, OnChanges, OnDestroy, OnInit, SimpleChanges } from '@angular/core';
+import { CommonModule, Location } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Router } from '@angular/router';
+import { skip, Subscription, timer } from 'rxjs';
+import { TreeNode } from './tree-node.component';
+import { GraphViewComponent } from './graph-view.component';
+import { WebSocketService, TagReadResponse, TagWriteResponse } from './websocket.service';
+import { isQueueableWriteFailure, TagRequestError } from './tag-request-error';
+import { TagSubscriptionService } from './tag-subscription.service';
+import { PendingWritesService } from './pending-writes.service';
+import { UdtSchemaService } from './udt-schema.service';
+import { NotificationService } from './notification.service';
+import { TagViewMode, WorkspacePane, WorkspaceService } from './workspace.service';
+import { ChangeSet, diffValues, isEmptyChangeSet } from './value-diff';
+import { ChangeLogService } from './change-log.service';
+import { TrendService } from './trend.service';
+import { SnapshotService } from './snapshot.service';
+import { downloadCsv, downloadJson, exportFileName } from './data-export';
+import { RefreshMonitorService } from './refresh-monitor.service';
+import {
+  ADAPTIVE_HIDDEN_MS,
+  ADAPTIVE_INITIAL_MS,
+  formatRefreshInterval,
+  nextAdaptiveInterval,
+  POLLING_INTERVALS_MS,
+  RefreshMode
+} from './refresh-strategy';
+
+/**
+ * Un tag abierto en el workspace: su árbol/grafo, su estrategia de refresco y
+ * su suscripción, que se suelta al cerrar el panel.
+ */
+@Component({
+  selector: 'app-tag-panel',
+  standalone: true,
+  imports: [CommonModule, FormsModule, GraphViewComponent],
+  template: `
+    <div class="panel-toolbar">
+      <strong>{{ pane.tagName }}</strong>
+      <span class="panel-type">{{ typeLabel }}</span>
+      <select [ngModel]="pane.refresh.mode" (ngModelChange)="setRefreshMode($event)" title="Refresh strategy">
+        <option value="push">Push only</option>
+        <option value="polling">Polling</option>
+        <option value="adaptive">Adaptive</option>
+      </select>
+      <select *ngIf="pane.refresh.mode === 'polling'" [ngModel]="pane.refresh.intervalMs" (ngModelChange)="setRefreshInterval($event)">
+        <option *ngFor="let ms of pollingIntervals" [ngValue]="ms">every {{ formatInterval(ms) }}</option>
+      </select>
+      <span class="panel-type" title="Effective refresh rate">⏱ {{ effectiveLabel }}</span>
+      <button class="btn-small" (click)="sendReadRequest(true)" [disabled]="loading">🔄</button>
+      <span *ngIf="pane.focusPath" class="panel-type">→ {{ pane.focusPath }}</span>
+      <button class="btn-small" (click)="copyLink()" title="Copy a link to this tag and member">🔗 Copy link</button>
+      <button class="btn-small" (click)="takeSnapshot()" [disabled]="treeData.length === 0" title="Store the current value to compare later">📸 Snapshot</button>
+      <button class="btn-small" (click)="exportJson()" [disabled]="treeData.length === 0" title="Download the raw value">⬇️ JSON</button>
+      <button class="btn-small" (click)="exportCsv()" [disabled]="treeData.length === 0" title="Download path,type,value rows">⬇️ CSV</button>
+    </div>
+
+    <div *ngIf="error" class="error">
+      ❌ {{ error }}
+    </div>
+
+    <div *ngIf="loading && treeData.length === 0" class="loading">
+      ⏳ Loading structure...
+    </div>
+
+    <div *ngIf="treeData.length > 0" class="tree-container">
+      <app-graph-view
+        [treeData]="treeData"
+        [view]="pane.view"
+        [focusPath]="pane.focusPath"
+        [changeSet]="changeSet"
+        (viewChange)="setView($event)"
+        (pathSelected)="selectPath($event)"
+        (trendRequested)="pinTrend($event)"
+        (writeValue)="writeValue($event)"
+        (editingStart)="onEditingStart($event)"
+        (editingEnd)="onEditingEnd($event)"
+      ></app-graph-view>
+    </div>
+  `,
+  styles: [`
+    .panel-toolbar { display: flex; flex-wrap: wrap; gap: 10px; align-items: center; margin-bottom: 10px; font-size: 13px; }
+    .panel-type { color: #6c757d; font-size: 12px; }
+  `]
+})
+export class TagPanelComponent implements OnInit, OnChanges, OnDestroy {
+  @Input() pane!: WorkspacePane;
+  @Input() connected: boolean = false;
+
+  treeData: TreeNode[] = [];
+  loading: boolean = false;
+  error: string = '';
+  readonly pollingIntervals = POLLING_INTERVALS_MS;
+  readonly formatInterval = formatRefreshInterval;
+  /** Intervalo de lectura vigente; null en modo push. */
+  effectiveMs: number | null = null;
+  /** Cambios de la última actualización, para que el grafo repinte solo esos nodos. */
+  changeSet?: ChangeSet;
+  private adaptiveMs: number = ADAPTIVE_INITIAL_MS;
+  private updateSubscription?: Subscription;
+  private tagWatch?: Subscription;
+  private schemaSubscription?: Subscription;
+  private visibilitySubscription?: Subscription;
+  private previousData: any = null;
+  /** Nodos del árbol por path, para aplicar un change set sin recorrer el árbol. */
+  private nodeIndex = new Map<string, TreeNode>();
+  private editingPaths: Set<string> = new Set();  // Track which paths are being edited
+
+  constructor(
+    private websocketService: WebSocketService,
+    private tagSubscriptions: TagSubscriptionService,
+    private pendingWrites: PendingWritesService,
+    private udtSchemas: UdtSchemaService,
+    private notifications: NotificationService,
+    private workspace: WorkspaceService,
+    private refreshMonitor: RefreshMonitorService,
+    private changeLog: ChangeLogService,
+    private trends: TrendService,
+    private snapshots: SnapshotService,
+    private router: Router,
+    private location: Location
+  ) {}
+
+  get typeLabel(): string {
+    return this.udtSchemas.typeLabel(this.pane.tagName, '') ?? '';
+  }
+
+  get effectiveLabel(): string {
+    return this.effectiveMs === null ? 'push' : formatRefreshInterval(this.effectiveMs);
+  }
+
+  ngOnInit() {
+    // Suscribirse al tag ANTES de cargar la estructura
+    this.tagWatch = this.tagSubscriptions.watch(this.pane.tagName)
+      .subscribe(response => this.handleReadResponse(response));
+    console.log(`✅ Subscribed to tag, now loading structure for tag: ${this.pane.tagName}`);
+    this.loadStructure();
+    this.startAutoUpdate();
+
+    // Al volver a la pestaña se lee en el acto; al ocultarla el modo adaptativo se relaja
+    this.visibilitySubscription = this.refreshMonitor.pageHidden.pipe(skip(1)).subscribe(hidden => {
+      if (!hidden && this.pane.refresh.mode !== 'push') {
+        this.sendReadRequest();
+      }
+      this.scheduleNextRead();
+    });
+
+    // Los esquemas pueden llegar después de construir el árbol
+    this.schemaSubscription = this.udtSchemas.loaded.subscribe(() => {
+      if (this.treeData.length > 0) {
+        this.applyDataTypes(this.treeData);
+        this.treeData = [...this.treeData];
+      }
+    });
+  }
+
+  ngOnChanges(changes: SimpleChanges) {
+    const previous: WorkspacePane | undefined = changes['pane']?.previousValue;
+    if (previous && previous.focusPath !== this.pane.focusPath && this.pane.focusPath) {
+      this.expandTo(this.treeData, this.pane.focusPath);
+    }
+    if (previous && previous.refresh !== this.pane.refresh) {
+      this.adaptiveMs = ADAPTIVE_INITIAL_MS;
+      this.startAutoUpdate();
+    }
+  }
+
+  ngOnDestroy() {
+    this.stopAutoUpdate();
+    this.refreshMonitor.remove(this.pane.id);
+    // Otras vistas pueden seguir observando el tag
+    this.tagWatch?.unsubscribe();
+    this.schemaSubscription?.unsubscribe();
+    this.visibilitySubscription?.unsubscribe();
+  }
+
+  setRefreshMode(mode: RefreshMode) {
+    this.workspace.setRefresh(this.pane.id, { ...this.pane.refresh, mode });
+  }
+
+  setRefreshInterval(intervalMs: number) {
+    this.workspace.setRefresh(this.pane.id, { ...this.pane.refresh, intervalMs });
+  }
+
+  setView(view: TagViewMode) {
+    this.workspace.setView(this.pane.id, view);
+  }
+
+  selectPath(path: string) {
+    this.workspace.setFocusPath(this.pane.id, path);
+  }
+
+  pinTrend(path: string) {
+    if (this.trends.pin(this.pane.tagName, path)) {
+      this.notifications.info(`Pinned ${this.pane.tagName}.${path} to the trend chart`);
+    }
+  }
+
+  /**
+   * Guarda en IndexedDB el último valor recibido con el nombre que elija el operador.
+   */
+  takeSnapshot() {
+    const tagName = this.pane.tagName;
+    const name = prompt(`Snapshot name for ${tagName}:`, `${tagName} ${new Date().toLocaleTimeString()}`);
+    if (name === null) {
+      return;
+    }
+    this.snapshots.take(tagName, name, this.previousData).then(
+      snapshot => this.notifications.success(`Snapshot "${snapshot.name}" saved`),
+      err => this.notifications.error('Could not save snapshot', err)
+    );
+  }
+
+  exportJson() {
+    downloadJson(exportFileName(this.pane.tagName, 'json'), this.previousData);
+  }
+
+  /**
+   * Una fila `path,type,value` por hoja, con los mismos paths que el árbol.
+   */
+  exportCsv() {
+    const rows: unknown[][] = [];
+    const collect = (nodes: TreeNode[]) => nodes.forEach(node => {
+      if (node.children && node.children.length > 0) {
+        collect(node.children);
+      } else {
+        rows.push([node.key, node.dataType || node.type, node.value]);
+      }
+    });
+    collect(this.treeData);
+    downloadCsv(exportFileName(this.pane.tagName, 'csv'), ['path', 'type', 'value'], rows);
+  }
+
+  /**
+   * Copia un enlace a /tags/:tagName con el miembro enfocado y el modo de vista.
+   */
+  copyLink() {
+    const tree = this.router.createUrlTree(['/tags', this.pane.tagName], {
+      queryParams: { path: this.pane.focusPath, view: this.pane.view }
+    });
+    const url = window.location.origin + this.location.prepareExternalUrl(this.router.serializeUrl(tree));
+    navigator.clipboard.writeText(url).then(
+      () => this.notifications.success('Link copied', url),
+      err => this.notifications.error('Could not copy link', err)
+    );
+  }
+
+  private handleReadResponse(response: TagReadResponse) {
+    console.log('📥 TagReadResponse received:', response);
+
+    if (response.hasError) {
+      console.error('❌ Tag read error:', response.errorMessage);
+      this.loading = false;
+      this.error = response.errorMessage || 'Error reading tag';
+    } else if (response.value) {
+      this.loading = false;
+      this.error = '';
+      const changeSet = this.updateTreeFromResponse(response.value);
+      if (changeSet && this.pane.refresh.mode === 'adaptive') {
+        this.adaptTo(!isEmptyChangeSet(changeSet));
+      }
+    } else {
+      console.warn('⚠️ Response has no value');
+      this.loading = false;
+      this.error = 'Response received but no value data';
+    }
+  }
+
+  loadStructure() {
+    this.loading = true;
+    this.error = '';
+    this.treeData = [];
+
+    // Detener actualizaciones anteriores
+    this.stopAutoUpdate();
+
+    // Enviar petición de lectura por MQTT. Se pide respuesta aunque el valor no
+    // cambie: si otro panel ya tiene el tag, en modo delta no llegaría nada
+    this.sendReadRequest(true);
+  }
+
+  /**
+   * En modo delta una lectura sin cambios no trae respuesta; el modo adaptativo
+   * la necesita para relajar el intervalo.
+   */
+  sendReadRequest(answerUnchanged: boolean = this.pane.refresh.mode === 'adaptive') {
+    const tagName = this.pane.tagName;
+    this.websocketService.sendReadRequest(tagName, answerUnchanged).subscribe({
+      next: () => {
+        // La respuesta llegará por el transporte en tiempo real
+        this.loading = false;
+      },
+      error: (err) => {
+        this.loading = false;
+        this.notifications.error(`Error sending read request for ${tagName}`, err);
+        console.error('Error sending read request:', err);
+      }
+    });
+  }
+
+  /**
+   * Construye el árbol con la primera lectura; después aplica solo el diff
+   * contra la lectura anterior. Devuelve ese change set (null en la primera).
+   */
+  updateTreeFromResponse(value: any): ChangeSet | null {
+    console.log('🔄 updateTreeFromResponse called with value:', value);
+    console.log('   Current treeData length:', this.treeData?.length || 0);
+
+    if (!value) {
+      console.warn('⚠️ updateTreeFromResponse: value is null or undefined');
+      return null;
+    }
+
+    try {
+      if (!this.treeData || this.treeData.length === 0) {
+        // Primera carga, construir el árbol completo
+        console.log('🌳 Building initial tree structure');
+        this.buildTreeFrom(value);
+        if (this.pane.focusPath) {
+          this.expandTo(this.treeData, this.pane.focusPath);
+        }
+        // Los valores no se mutan (los deltas se aplican copy-on-write): basta la referencia
+        this.previousData = value;
+        console.log('✅ Tree built successfully, nodes:', this.treeData.length);
+        return null;
+      }
+
+      const changeSet = diffValues(this.previousData, value);
+      if (changeSet.structural) {
+        // Un array redimensionado o un miembro nuevo cambian la forma del árbol
+        console.log('🌳 Tag structure changed, rebuilding tree');
+        this.rebuildTree(value);
+      }
+      this.applyChangeSet(changeSet);
+      this.changeLog.record(this.pane.tagName, changeSet);
+      this.changeSet = changeSet;
+      this.previousData = value;
+      console.log(`✅ Tree values updated, ${changeSet.changes.length} change(s)`);
+      return changeSet;
+    } catch (error) {
+      console.error('❌ Error in updateTreeFromResponse:', error);
+      this.error = `Error processing response: ${error}`;
+      return null;
+    }
+  }
+
+  startAutoUpdate() {
+    this.scheduleNextRead();
+  }
+
+  stopAutoUpdate() {
+    if (this.updateSubscription) {
+      this.updateSubscription.unsubscribe();
+      this.updateSubscription = undefined;
+    }
+  }
+
+  /**
+   * Programa la siguiente lectura según la estrategia del panel. Con un timer
+   * por lectura (y no un interval) el modo adaptativo puede cambiar el ritmo
+   * en cada vuelta.
+   */
+  private scheduleNextRead() {
+    this.stopAutoUpdate();
+    this.effectiveMs = this.readDelay();
+    this.refreshMonitor.report({
+      paneId: this.pane.id,
+      tagName: this.pane.tagName,
+      mode: this.pane.refresh.mode,
+      intervalMs: this.effectiveMs
+    });
+    if (this.effectiveMs === null) {
+      return;
+    }
+    this.updateSubscription = timer(this.effectiveMs).subscribe(() => {
+      this.sendReadRequest();
+      this.scheduleNextRead();
+    });
+  }
+
+  private readDelay(): number | null {
+    switch (this.pane.refresh.mode) {
+      case 'push':
+        return null;
+      case 'polling':
+        return this.pane.refresh.intervalMs;
+      case 'adaptive':
+        return this.refreshMonitor.isPageHidden()
+          ? Math.max(this.adaptiveMs, ADAPTIVE_HIDDEN_MS)
+          : this.adaptiveMs;
+    }
+  }
+
+  /**
+   * Ajusta el intervalo adaptativo tras cada respuesta. Si se acorta, se
+   * reprograma ya para no esperar al intervalo largo anterior.
+   */
+  private adaptTo(changed: boolean) {
+    const previousMs = this.adaptiveMs;
+    this.adaptiveMs = nextAdaptiveInterval(this.adaptiveMs, changed);
+    if (this.adaptiveMs < previousMs && !this.refreshMonitor.isPageHidden()) {
+      this.scheduleNextRead();
+    }
+  }
+
+  /**
+   * Marca los nodos del change set. Los que se están editando no se tocan para
+   * no pisar lo que escribe el operador.
+   */
+  private applyChangeSet(changeSet: ChangeSet) {
+    const highlighted: TreeNode[] = [];
+
+    changeSet.changes.forEach(change => {
+      // Un tag escalar tiene su único nodo en 'value'
+      const node = this.nodeIndex.get(change.path || 'value');
+      if (!node || change.kind === 'removed' || this.editingPaths.has(node.key)) {
+        return;
+      }
+      if (change.kind === 'changed') {
+        node.previousValue = change.oldValue;
+      }
+      node.value = change.newValue;
+      if (node.editable) {
+        node.editValue = change.newValue;
+      }
+      node.changed = true;
+      highlighted.push(node);
+    });
+
+    changeSet.resized.forEach(resize => {
+      const node = this.nodeIndex.get(resize.path);
+      if (node) {
+        node.changed = true;
+        highlighted.push(node);
+      }
+    });
+
+    // Un único timer quita el resaltado de toda la actualización
+    if (highlighted.length > 0) {
+      setTimeout(() => highlighted.forEach(node => node.changed = false), 500);
+    }
+  }
+
+  private buildTreeFrom(value: any) {
+    this.treeData = this.buildTree(value, '');
+    this.applyDataTypes(this.treeData);
+    this.nodeIndex.clear();
+    this.indexNodes(this.treeData);
+  }
+
+  /**
+   * Reconstruye el árbol con la nueva forma conservando qué nodos estaban
+   * expandidos y los borradores de los que se están editando.
+   */
+  private rebuildTree(value: any) {
+    const expanded = new Set<string>();
+    const drafts = new Map<string, any>();
+    this.nodeIndex.forEach((node, path) => {
+      if (node.expanded) {
+        expanded.add(path);
+      }
+      if (this.editingPaths.has(path)) {
+        drafts.set(path, node.editValue);
+      }
+    });
+
+    this.buildTreeFrom(value);
+
+    this.nodeIndex.forEach((node, path) => {
+      node.expanded = node.children ? expanded.has(path) : node.expanded;
+      if (drafts.has(path)) {
+        node.editValue = drafts.get(path);
+      }
+    });
+  }
+
+  private indexNodes(nodes: TreeNode[]) {
+    nodes.forEach(node => {
+      this.nodeIndex.set(node.key, node);
+      if (node.children) {
+        this.indexNodes(node.children);
+      }
+    });
+  }
+
+  buildTree(obj: any, path: string): TreeNode[] {
+    const nodes: TreeNode[] = [];
+
+    if (obj === null || obj === undefined) {
+      return [{ key: path || 'null', value: null, type: 'null', editable: false }];
+    }
+
+    if (Array.isArray(obj)) {
+      obj.forEach((item, index) => {
+        const newPath = path ? `${path}[${index}]` : `[${index}]`;
+        if (typeof item === 'object' && item !== null) {
+          nodes.push({
+            key: newPath,
+            value: item,
+            type: 'array',
+            children: this.buildTree(item, newPath),
+            expanded: false,  // Collapsed by default
+            editable: false
+          });
+        } else {
+          nodes.push({
+            key: newPath,
+            value: item,
+            type: typeof item,
+            editable: this.isEditableType(item),
+            editValue: item
+          });
+        }
+      });
+    } else if (typeof obj === 'object') {
+      Object.keys(obj).forEach(key => {
+        const newPath = path ? `${path}.${key}` : key;
+        const value = obj[key];
+
+        if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+          nodes.push({
+            key: newPath,
+            value: value,
+            type: 'object',
+            children: this.buildTree(value, newPath),
+            expanded: false,  // Collapsed by default
+            editable: false
+          });
+        } else if (Array.isArray(value)) {
+          nodes.push({
+            key: newPath,
+            value: value,
+            type: 'array',
+            children: this.buildTree(value, newPath),
+            expanded: false,  // Collapsed by default
+            editable: false
+          });
+        } else {
+          nodes.push({
+            key: newPath,
+            value: value,
+            type: typeof value,
+            editable: this.isEditableType(value),
+            editValue: value
+          });
+        }
+      });
+    } else {
+      nodes.push({
+        key: path || 'value',
+        value: obj,
+        type: typeof obj,
+        editable: this.isEditableType(obj),
+        editValue: obj
+      });
+    }
+
+    return nodes;
+  }
+
+  /**
+   * Etiqueta cada nodo con su tipo Logix según el esquema UDT del tag.
+   */
+  private applyDataTypes(nodes: TreeNode[]) {
+    nodes.forEach(node => {
+      node.dataType = this.udtSchemas.typeLabel(this.pane.tagName, node.key);
+      if (node.children) {
+        this.applyDataTypes(node.children);
+      }
+    });
+  }
+
+  /**
+   * Expande los ancestros de `path` (y el propio nodo) para que sea visible.
+   */
+  private expandTo(nodes: TreeNode[], path: string) {
+    nodes.forEach(node => {
+      if (node.children && (path === node.key || path.startsWith(`${node.key}.`) || path.startsWith(`${node.key}[`))) {
+        node.expanded = true;
+        this.expandTo(node.children, path);
+      }
+    });
+  }
+
+  isEditableType(value: any): boolean {
+    return typeof value === 'number' || typeof value === 'string' || typeof value === 'boolean';
+  }
+
+  onEditingStart(path: string) {
+    this.editingPaths.add(path);
+  }
+
+  onEditingEnd(path: string) {
+    this.editingPaths.delete(path);
+  }
+
+  writeValue(data: { path: string; value: any }) {
+    if (!data.path) {
+      return;
+    }
+
+    const tagName = this.pane.tagName;
+
+    // Un valor que no cabe en el tipo Logix fallaría en el PLC: ni se envía ni se encola
+    const invalid = this.udtSchemas.validateWrite(tagName, data.path, data.value);
+    if (invalid) {
+      this.notifications.warning(invalid);
+      return;
+    }
+
+    // Sin conexión la respuesta nunca llegaría: guardar la intención del operador
+    if (!this.connected) {
+      this.queueWrite(tagName, data, 'WebSocket disconnected');
+      return;
+    }
+
+    // La respuesta se correlaciona por correlationId, no por nombre de tag
+    this.websocketService.writeTag(tagName, data.path, data.value).subscribe({
+      next: (response: TagWriteResponse) => {
+        console.log('✅ Value written successfully:', response);
+        this.notifications.success(`Wrote ${tagName}.${data.path}`);
+        // Refrescar valores después de escribir; en push ya llegará el cambio
+        if (this.pane.refresh.mode !== 'push') {
+          this.sendReadRequest();
+        }
+      },
+      error: (err: TagRequestError) => {
+        if (isQueueableWriteFailure(err)) {
+          this.queueWrite(tagName, data, err.message);
+          return;
+        }
+        this.notifications.error(`Error writing ${tagName}.${data.path}`, err);
+        console.error(`Error writing ${tagName}.${data.path} (${err.kind}):`, err);
+      }
+    });
+  }
+
+  private queueWrite(tagName: string, data: { path: string; value: any }, reason: string) {
+    this.pendingWrites.enqueue(tagName, data.path, data.value, reason).then(
+      () => this.notifications.warning(`Write to ${tagName}.${data.path} queued: ${reason}`),
+      err => {
+        console.error('❌ Error queuing write:', err);
+        this.notifications.error(`Could not queue write for ${data.path} (${reason})`, err);
+      }
+    );
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * Utilidades para los paths de miembros que usa el árbol, p. ej.
+ * `cavities[3].data.value`.
+ */
+
+/**
+ * Divide un path en sus segmentos: "prop[0].subprop" -> ["prop", "0", "subprop"].
+ */
+export function splitPath(path: string): string[] {
+  return path.split(/[\.\[\]]/).filter(p => p !== '');
+}
+
+export function getValueByPath(obj: any, path: string): any {
+  if (!path) return obj;
+
+  let current = obj;
+  for (const part of splitPath(path)) {
+    if (current === null || current === undefined) {
+      return undefined;
+    }
+
+    // Si es un número, tratar como índice de array
+    const numIndex = parseInt(part, 10);
+    if (!isNaN(numIndex) && Array.isArray(current)) {
+      current = current[numIndex];
+    } else {
+      current = current[part];
+    }
+  }
+
+  return current;
+}
+
+/**
+ * Asigna `value` en `path` dentro de `obj` (mutándolo), creando objetos o
+ * arrays intermedios cuando faltan.
+ */
+export function setValueByPath(obj: any, path: string, value: any): void {
+  const parts = splitPath(path);
+  if (parts.length === 0) {
+    return;
+  }
+
+  let current = obj;
+  parts.slice(0, -1).forEach((part, index) => {
+    const key = Array.isArray(current) ? parseInt(part, 10) : part;
+    if (current[key] === null || typeof current[key] !== 'object') {
+      const nextIsIndex = /^\d+$/.test(parts[index + 1]);
+      current[key] = nextIsIndex ? [] : {};
+    }
+    current = current[key];
+  });
+
+  const last = parts[parts.length - 1];
+  current[Array.isArray(current) ? parseInt(last, 10) : last] = value;
+}
+
+/**
+ * Compara un path con un patrón glob: `*` dentro de un segmento, `**` en
+ * cualquier profundidad y `?` un carácter. "cavities[*].data" encuentra
+ * "cavities[3].data"; "**.temperature", los temperature a cualquier
+ * profundidad, incluido el de primer nivel (`**.` también puede no abarcar nada).
+ * Sin comodines basta con que el path contenga el patrón.
+ */
+export function matchesPathGlob(path: string, glob: string): boolean {
+  const pattern = glob.trim();
+  if (!pattern) {
+    return true;
+  }
+  if (!/[*?]/.test(pattern)) {
+    return path.toLowerCase().includes(pattern.toLowerCase());
+  }
+  const source = pattern
+    .split(/(\*\*\.|\*\*|\*|\?)/)
+    .map(part => {
+      switch (part) {
+        case '**.': return '(?:.*\\.)?';
+        case '**': return '.*';
+        case '*': return '[^.\\[\\]]*';
+        case '?': return '[^.\\[\\]]';
+        default: return part.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+      }
+    })
+    .join('');
+  return new RegExp(`^${source}$`, 'i').test(path);
+}
+
+/**
+ * Nombre completo de un miembro: ("pallet", "cavities[0].weight") ->
+ * "pallet.cavities[0].weight"; ("list", "[2]") -> "list[2]"; sin path, el tag.
+ */
+export function memberName(tagName: string, path: string): string {
+  if (!path) {
+    return tagName;
+  }
+  return path.startsWith('[') ? tagName + path : `${tagName}.${path}`;
+}
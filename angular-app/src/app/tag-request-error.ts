@@ -0,0 +1,48 @@
+import { isApiError } from './api-error';
+
+/**
+ * Motivo por el que falló una petición correlacionada de lectura/escritura.
+ *
+ * - `disconnected`: no hay conexión en tiempo real, la respuesta nunca llegaría.
+ * - `gateway-changed`: se cambió de gateway con la petición en curso; la
+ *   respuesta del anterior ya no llegará.
+ * - `send-failed`: el backend rechazó el envío de la petición (HTTP).
+ * - `timeout`: no llegó ninguna respuesta con el correlationId dentro del plazo.
+ * - `cancelled`: el llamador abortó la petición (AbortSignal).
+ * - `tag-error`: llegó la respuesta, pero el PLC reportó un error.
+ */
+export type TagRequestErrorKind = 'disconnected' | 'gateway-changed' | 'send-failed' | 'timeout' | 'cancelled' | 'tag-error';
+
+export class TagRequestError extends Error {
+  constructor(
+    readonly kind: TagRequestErrorKind,
+    message: string,
+    readonly tagName: string,
+    readonly correlationId: string,
+    cause?: unknown
+  ) {
+    super(message, { cause });
+    this.name = 'TagRequestError';
+  }
+}
+
+export function isTagRequestError(err: unknown): err is TagRequestError {
+  return err instanceof TagRequestError;
+}
+
+/**
+ * Si una escritura fallida merece quedar en cola para reenviarla al volver la
+ * conexión: sin conexión, error de red o 5xx. Un 4xx (validación, permisos)
+ * fallaría igual al reintentarlo, así que se muestra al momento; tras un cambio
+ * de gateway la escritura pudo llegar al PLC anterior y no se reenvía.
+ */
+export function isQueueableWriteFailure(err: TagRequestError): boolean {
+  if (err.kind === 'disconnected') {
+    return true;
+  }
+  if (err.kind !== 'send-failed') {
+    return false;
+  }
+  // Sin ApiError el fallo fue del propio transporte, no una respuesta del backend
+  return !isApiError(err.cause) || err.cause.status === 0 || err.cause.status >= 500;
+}
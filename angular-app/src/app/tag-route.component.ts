@@ -0,0 +1,44 @@
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { ActivatedRoute } from '@angular/router';
+import { combineLatest, Subscription } from 'rxjs';
+import { WorkspaceService } from './workspace.service';
+
+/**
+ * Destino de `/tags/:tagName?path=...&view=graph|tree`: no pinta nada, solo
+ * abre (o activa) el tag en el workspace. Así los enlaces pegados en un
+ * informe y el back/forward del navegador llevan al mismo tag y miembro.
+ */
+@Component({
+  selector: 'app-tag-route',
+  standalone: true,
+  template: ''
+})
+export class TagRouteComponent implements OnInit, OnDestroy {
+  private subscription?: Subscription;
+
+  constructor(
+    private route: ActivatedRoute,
+    private workspace: WorkspaceService
+  ) {}
+
+  ngOnInit() {
+    // El router actualiza el snapshot antes de emitir params/queryParams: leerlo
+    // ahí evita abrir el tag nuevo con la query del anterior
+    this.subscription = combineLatest([this.route.paramMap, this.route.queryParamMap]).subscribe(() => {
+      const { paramMap, queryParamMap } = this.route.snapshot;
+      const tagName = paramMap.get('tagName');
+      if (!tagName) {
+        return;
+      }
+      const view = queryParamMap.get('view');
+      this.workspace.open(tagName, {
+        path: queryParamMap.get('path') ?? undefined,
+        view: view === 'graph' || view === 'tree' ? view : undefined
+      });
+    });
+  }
+
+  ngOnDestroy() {
+    this.subscription?.unsubscribe();
+  }
+}
@@ -0,0 +1,81 @@
+import { Injectable } from '@angular/core';
+import { Observable, filter, finalize, share } from 'rxjs';
+import { WebSocketService, TagReadResponse } from './websocket.service';
+
+/** Ámbito de programa de Logix: `Program:MainProgram.Temp`. */
+const PROGRAM_SCOPE = /^Program:[^.]+\./i;
+
+/**
+ * El servidor puede responder con el nombre calificado por programa, así que
+ * `Temp` coincide con `Program:X.Temp` (y al revés), pero nunca por un sufijo
+ * cualquiera: `Temp` no recibe los valores de `Line1.Temp`.
+ */
+export function tagNameMatches(watched: string, received: string): boolean {
+  return received === watched
+    || received.replace(PROGRAM_SCOPE, '') === watched
+    || watched.replace(PROGRAM_SCOPE, '') === received;
+}
+
+/**
+ * Reparte las actualizaciones push de cada tag entre varios consumidores.
+ *
+ * Cada llamada a `watch` devuelve un handle independiente; el `subscribe` al
+ * servidor se envía con el primer consumidor de un tag y el `unsubscribe` solo
+ * cuando se va el último, así una vista no corta los datos de otra.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class TagSubscriptionService {
+  private watches = new Map<string, Observable<TagReadResponse>>();
+  private consumerCounts = new Map<string, number>();
+
+  constructor(private websocketService: WebSocketService) {}
+
+  watch(tagName: string): Observable<TagReadResponse> {
+    return new Observable<TagReadResponse>(subscriber => {
+      // Se busca al suscribirse, no al llamar a watch: el stream de entonces pudo
+      // haber finalizado y reutilizarlo duplicaría la suscripción del servidor
+      let shared = this.watches.get(tagName);
+      if (!shared) {
+        shared = this.createWatch(tagName);
+        this.watches.set(tagName, shared);
+      }
+
+      this.consumerCounts.set(tagName, this.getConsumerCount(tagName) + 1);
+      const subscription = shared.subscribe(subscriber);
+      return () => {
+        this.consumerCounts.set(tagName, this.getConsumerCount(tagName) - 1);
+        if (this.getConsumerCount(tagName) <= 0) {
+          this.consumerCounts.delete(tagName);
+        }
+        subscription.unsubscribe();
+      };
+    });
+  }
+
+  getConsumerCount(tagName: string): number {
+    return this.consumerCounts.get(tagName) ?? 0;
+  }
+
+  getWatchedTags(): string[] {
+    return Array.from(this.consumerCounts.keys());
+  }
+
+  private createWatch(tagName: string): Observable<TagReadResponse> {
+    return new Observable<TagReadResponse>(subscriber => {
+      // Primer consumidor: suscribirse en el servidor
+      this.websocketService.subscribeToTag(tagName);
+      return this.websocketService.tagReadResponse
+        .pipe(filter(response => tagNameMatches(tagName, response.tagName)))
+        .subscribe(subscriber);
+    }).pipe(
+      finalize(() => {
+        // Último consumidor: liberar la suscripción del servidor
+        this.websocketService.unsubscribeFromTag(tagName);
+        this.watches.delete(tagName);
+      }),
+      share()
+    );
+  }
+}
@@ -0,0 +1,105 @@
+import { InjectionToken, inject } from '@angular/core';
+import { Observable } from 'rxjs';
+import { ClientMessage, SubscriptionMode } from './websocket-protocol';
+import { TagReadRequest, TagWriteRequest } from './mqtt.service';
+import { WebSocketTransport } from './websocket-transport';
+import { SignalRTransport } from './signalr-transport';
+import { SseTransport } from './sse-transport';
+import { MockTagTransport } from './mock-tag-transport';
+
+export type TagTransportKind = 'websocket' | 'signalr' | 'sse' | 'mock';
+
+export const TAG_TRANSPORT_KINDS: TagTransportKind[] = ['websocket', 'signalr', 'sse', 'mock'];
+
+/**
+ * Callbacks de una conexión. Los transportes deben invocarlos de forma
+ * asíncrona (nunca dentro de `open`), igual que un `WebSocket` nativo.
+ */
+export interface TagTransportHandlers {
+  onOpen(): void;
+  /** Frame entrante: texto JSON o un objeto ya deserializado. */
+  onMessage(frame: unknown): void;
+  onError(error: unknown): void;
+  onClose(): void;
+}
+
+/**
+ * Una conexión abierta por un transporte. `WebSocketService` abre una nueva
+ * en cada intento de reconexión.
+ */
+export interface TagTransportConnection {
+  send(message: ClientMessage): void;
+  close(): void;
+  isOpen(): boolean;
+}
+
+export type TagTransportRequest =
+  | { kind: 'read'; request: TagReadRequest }
+  | { kind: 'write'; request: TagWriteRequest };
+
+/**
+ * Canal en tiempo real entre el SPA y el backend.
+ */
+export interface TagTransport {
+  readonly kind: TagTransportKind;
+  /** Destino legible para logs (URL, "in-memory", ...). */
+  readonly description: string;
+  open(handlers: TagTransportHandlers): TagTransportConnection;
+  /**
+   * Transportes que pueden llevar las peticiones de lectura/escritura por sí
+   * mismos. Si no se implementa, las peticiones van por la API REST de MQTT.
+   */
+  sendRequest?(request: TagTransportRequest): Observable<unknown>;
+}
+
+export interface TagTransportConfig {
+  kind: TagTransportKind;
+  /** URL del endpoint; relativa al host que sirve el SPA si empieza por '/'. */
+  url?: string;
+  /** Modo pedido al suscribirse; por defecto `delta` (JSON Patch sobre una línea base). */
+  subscriptionMode?: SubscriptionMode;
+}
+
+const DEFAULT_URLS: Record<TagTransportKind, string> = {
+  websocket: '/ws/plctag',
+  signalr: '/hubs/plctag',
+  sse: '/sse/plctag',
+  mock: ''
+};
+
+/**
+ * Transporte por defecto: WebSocket nativo. Se puede forzar otro con
+ * `?transport=signalr|sse|mock` en la URL (útil para pruebas de UI sin servidor)
+ * y volver a recibir el UDT completo en cada lectura con `?updates=full`.
+ */
+export function transportConfigFromLocation(location: Location): TagTransportConfig {
+  const params = new URLSearchParams(location.search);
+  const requested = params.get('transport');
+  const kind = TAG_TRANSPORT_KINDS.find(k => k === requested) ?? 'websocket';
+  const subscriptionMode = params.get('updates') === 'full' ? 'full' : 'delta';
+  return { kind, subscriptionMode };
+}
+
+export const TAG_TRANSPORT_CONFIG = new InjectionToken<TagTransportConfig>('TAG_TRANSPORT_CONFIG', {
+  providedIn: 'root',
+  factory: () => transportConfigFromLocation(window.location)
+});
+
+export function createTagTransport(config: TagTransportConfig): TagTransport {
+  const url = config.url || DEFAULT_URLS[config.kind];
+  switch (config.kind) {
+    case 'websocket':
+      return new WebSocketTransport(url);
+    case 'signalr':
+      return new SignalRTransport(url);
+    case 'sse':
+      return new SseTransport(url);
+    case 'mock':
+      return new MockTagTransport();
+  }
+}
+
+export const TAG_TRANSPORT = new InjectionToken<TagTransport>('TAG_TRANSPORT', {
+  providedIn: 'root',
+  factory: () => createTagTransport(inject(TAG_TRANSPORT_CONFIG))
+});
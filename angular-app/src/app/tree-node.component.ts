@@ -6,6 +6,8 @@ export interface TreeNode {
   key: string;
   value: any;
   type: string;
+  /** Tipo Logix del esquema UDT (p. ej. 'DINT', 'STRING'), si se conoce. */
+  dataType?: string;
   children?: TreeNode[];
   expanded?: boolean;
   previousValue?: any;
@@ -14,15 +16,22 @@ export interface TreeNode {
   editValue?: any;
 }
 
+/**
+ * Hojas que se pueden llevar al gráfico de tendencias: números y BOOL.
+ */
+export function isTrendable(node: TreeNode): boolean {
+  return !node.children && (node.type === 'number' || node.type === 'boolean');
+}
+
 @Component({
   selector: 'app-tree-node',
   standalone: true,
   imports: [CommonModule, FormsModule],
   template: `
     <div class="tree-node-wrapper">
-      <div class="tree-node-card" [class.has-children]="node.children" [class.changed]="node.changed">
+      <div class="tree-node-card" [class.has-children]="node.children" [class.changed]="node.changed" [attr.data-path]="node.key" (contextmenu)="onContextMenu($event)">
         <div class="node-content">
-          <div class="node-header" (click)="node.children && toggle()">
+          <div class="node-header" (click)="onHeaderClick()">
             <div class="node-icon-wrapper">
               <span *ngIf="node.children" class="expand-icon">
                 {{ node.expanded ? '▼' : '▶' }}
@@ -31,7 +40,8 @@ export interface TreeNode {
             </div>
             <div class="node-label">
               <span class="node-key">{{ getDisplayKey(node.key) }}</span>
-              <span class="node-type-badge" [attr.data-type]="node.type">{{ node.type }}</span>
+              <span class="node-type-badge" [attr.data-type]="node.type">{{ node.dataType || node.type }}</span>
+              <button *ngIf="trendable" class="btn-trend" (click)="requestTrend($event)" title="Pin to trend (or right-click)">📈</button>
             </div>
           </div>
           
@@ -74,6 +84,8 @@ export interface TreeNode {
             *ngFor="let child of node.children"
             [node]="child"
             (writeValue)="onWriteValue($event)"
+            (pathSelected)="pathSelected.emit($event)"
+            (trendRequested)="trendRequested.emit($event)"
           ></app-tree-node>
         </div>
       </div>
@@ -164,6 +176,8 @@ export interface TreeNode {
       font-size: 15px;
     }
 
+    .btn-trend { border: none; background: none; cursor: pointer; padding: 0; }
+
     .node-type-badge {
       padding: 2px 8px;
       border-radius: 12px;
@@ -302,14 +316,38 @@ export class TreeNodeComponent {
   @Output() writeValue = new EventEmitter<{ path: string; value: any }>();
   @Output() editingStart = new EventEmitter<string>();
   @Output() editingEnd = new EventEmitter<string>();
+  @Output() pathSelected = new EventEmitter<string>();
+  @Output() trendRequested = new EventEmitter<string>();
   writing: boolean = false;
 
+  get trendable(): boolean {
+    return isTrendable(this.node);
+  }
+
   toggle() {
     if (this.node?.children) {
       this.node.expanded = !this.node.expanded;
     }
   }
 
+  onHeaderClick() {
+    this.toggle();
+    this.pathSelected.emit(this.node.key);
+  }
+
+  requestTrend(event: Event) {
+    // Que no cuente como click en la cabecera
+    event.stopPropagation();
+    this.trendRequested.emit(this.node.key);
+  }
+
+  onContextMenu(event: MouseEvent) {
+    if (this.trendable) {
+      event.preventDefault();
+      this.requestTrend(event);
+    }
+  }
+
   getDisplayKey(key: string): string {
     if (!key) return '';
     const parts = key.split(/[\.\[\]]/).filter(p => p);
@@ -0,0 +1,240 @@
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Subscription, timer } from 'rxjs';
+import { TrendPen, TrendSample, TrendService, TREND_RETENTION_MS } from './trend.service';
+import { downloadCsv, downloadJson, exportFileName } from './data-export';
+
+const WIDTH = 800;
+const HEIGHT = 240;
+const RENDER_INTERVAL_MS = 1000;
+
+export const TREND_WINDOWS = [
+  { label: '1 min', ms: 60 * 1000 },
+  { label: '5 min', ms: 5 * 60 * 1000 },
+  { label: '15 min', ms: 15 * 60 * 1000 },
+  { label: '1 h', ms: TREND_RETENTION_MS }
+];
+
+interface PenLine {
+  pen: TrendPen;
+  points: string;
+  last?: number;
+}
+
+/**
+ * Gráfico de tendencias en SVG con una línea por pluma. En vivo la ventana
+ * acaba en "ahora"; en pausa se queda fija y se puede desplazar hacia atrás
+ * dentro de lo retenido.
+ */
+@Component({
+  selector: 'app-trend-chart',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  template: `
+    <div class="trend-panel">
+      <div class="trend-row">
+        <strong>📈 Trends</strong>
+        <select [(ngModel)]="windowMs" (ngModelChange)="render()">
+          <option *ngFor="let w of windows" [ngValue]="w.ms">{{ w.label }}</option>
+        </select>
+        <label><input type="checkbox" [(ngModel)]="autoscale" (ngModelChange)="render()" /> Autoscale</label>
+        <ng-container *ngIf="!autoscale">
+          <input type="number" [(ngModel)]="fixedMin" (ngModelChange)="render()" title="Y min" />
+          <input type="number" [(ngModel)]="fixedMax" (ngModelChange)="render()" title="Y max" />
+        </ng-container>
+        <button class="btn-small" (click)="scroll(-1)" title="Back half a window">◀</button>
+        <button class="btn-small" (click)="paused ? goLive() : pause()">{{ paused ? '▶️ Live' : '⏸️ Pause' }}</button>
+        <button class="btn-small" (click)="scroll(1)" [disabled]="!paused" title="Forward half a window">▶</button>
+        <button class="btn-small" (click)="clear()">Clear</button>
+        <button class="btn-small" (click)="exportCsv()">⬇️ CSV</button>
+        <button class="btn-small" (click)="exportJson()">⬇️ JSON</button>
+      </div>
+
+      <svg [attr.viewBox]="'0 0 ' + width + ' ' + height" preserveAspectRatio="none">
+        <line *ngFor="let y of gridLines" x1="0" [attr.x2]="width" [attr.y1]="y" [attr.y2]="y" class="grid" />
+        <polyline *ngFor="let line of lines" [attr.points]="line.points" [attr.stroke]="line.pen.color" fill="none" vector-effect="non-scaling-stroke" />
+      </svg>
+      <div class="axis">
+        <span>{{ viewStart | date:'HH:mm:ss' }}</span>
+        <span>{{ yMin | number:'1.0-3' }} … {{ yMax | number:'1.0-3' }}</span>
+        <span>{{ viewEnd | date:'HH:mm:ss' }}{{ paused ? ' (paused)' : '' }}</span>
+      </div>
+
+      <div class="trend-row">
+        <span *ngFor="let line of allLines" class="pen" [class.hidden]="!line.pen.visible">
+          <span class="swatch" [style.background]="line.pen.color" (click)="trends.toggleVisible(line.pen.id)" title="Show/hide"></span>
+          {{ line.pen.tagName }}.{{ line.pen.path }}<ng-container *ngIf="line.last !== undefined">: {{ line.last }}</ng-container>
+          <button class="btn-small" (click)="trends.unpin(line.pen.id)" title="Remove pen">✕</button>
+        </span>
+      </div>
+    </div>
+  `,
+  styles: [`
+    .trend-panel { margin-bottom: 20px; padding: 12px 16px; border: 1px solid #dee2e6; border-radius: 8px; font-size: 13px; }
+    .trend-row { display: flex; flex-wrap: wrap; gap: 8px; align-items: center; margin: 6px 0; }
+    .trend-row input[type=number] { width: 80px; }
+    svg { width: 100%; height: 240px; background: #fbfcfd; border: 1px solid #e9ecef; }
+    polyline { stroke-width: 2; }
+    .grid { stroke: #e9ecef; }
+    .axis { display: flex; justify-content: space-between; color: #6c757d; font-size: 11px; }
+    .pen.hidden { opacity: 0.4; }
+    .swatch { display: inline-block; width: 12px; height: 12px; border-radius: 2px; cursor: pointer; vertical-align: middle; }
+  `]
+})
+export class TrendChartComponent implements OnInit, OnDestroy {
+  readonly windows = TREND_WINDOWS;
+  readonly width = WIDTH;
+  readonly height = HEIGHT;
+  readonly gridLines = [HEIGHT / 4, HEIGHT / 2, (HEIGHT * 3) / 4];
+  windowMs: number = TREND_WINDOWS[1].ms;
+  autoscale: boolean = true;
+  fixedMin: number = 0;
+  fixedMax: number = 100;
+  paused: boolean = false;
+  viewEnd: number = Date.now();
+  yMin: number = 0;
+  yMax: number = 1;
+  /** Plumas visibles con su trazo. */
+  lines: PenLine[] = [];
+  /** Todas las plumas, para la leyenda. */
+  allLines: PenLine[] = [];
+  private subscriptions = new Subscription();
+
+  constructor(public trends: TrendService) {}
+
+  get viewStart(): number {
+    return this.viewEnd - this.windowMs;
+  }
+
+  ngOnInit() {
+    this.subscriptions.add(this.trends.pens.subscribe(() => this.render()));
+    this.subscriptions.add(timer(0, RENDER_INTERVAL_MS).subscribe(() => {
+      if (!this.paused) {
+        this.viewEnd = Date.now();
+        this.render();
+      }
+    }));
+  }
+
+  ngOnDestroy() {
+    this.subscriptions.unsubscribe();
+  }
+
+  pause() {
+    this.paused = true;
+  }
+
+  goLive() {
+    this.paused = false;
+    this.viewEnd = Date.now();
+    this.render();
+  }
+
+  /**
+   * Desplaza la ventana media anchura; desplazarse pausa el modo en vivo.
+   */
+  scroll(direction: -1 | 1) {
+    const now = Date.now();
+    this.paused = true;
+    this.viewEnd = Math.min(now, Math.max(now - TREND_RETENTION_MS + this.windowMs, this.viewEnd + direction * this.windowMs / 2));
+    this.render();
+  }
+
+  clear() {
+    this.trends.clearSamples();
+    this.render();
+  }
+
+  /**
+   * Exporta todo el buffer retenido de cada pluma, no solo la ventana visible.
+   */
+  exportCsv() {
+    const rows = this.trends.getPens().flatMap(pen =>
+      this.trends.getSamples(pen.id).map(sample => [new Date(sample.t).toISOString(), pen.tagName, pen.path, sample.v]));
+    rows.sort((a, b) => String(a[0]).localeCompare(String(b[0])));
+    downloadCsv(this.exportName('csv'), ['timestamp', 'tag', 'path', 'value'], rows);
+  }
+
+  exportJson() {
+    const pens = this.trends.getPens().map(pen => ({
+      tagName: pen.tagName,
+      path: pen.path,
+      samples: this.trends.getSamples(pen.id).map(sample => ({ timestamp: new Date(sample.t).toISOString(), value: sample.v }))
+    }));
+    downloadJson(this.exportName('json'), pens);
+  }
+
+  private exportName(extension: string): string {
+    const tagNames = [...new Set(this.trends.getPens().map(pen => pen.tagName))];
+    return exportFileName(`trend_${tagNames.join('+') || 'empty'}`, extension);
+  }
+
+  render() {
+    const start = this.viewStart;
+    const pens = this.trends.getPens();
+    const inWindow = new Map(pens.map(pen => [pen.id, this.samplesInWindow(this.trends.getSamples(pen.id), start)]));
+
+    this.setYRange(pens.filter(pen => pen.visible).flatMap(pen => inWindow.get(pen.id)!.map(sample => sample.v)));
+
+    this.allLines = pens.map(pen => {
+      const samples = inWindow.get(pen.id)!;
+      return { pen, points: pen.visible ? this.toPoints(samples, start) : '', last: samples[samples.length - 1]?.v };
+    });
+    this.lines = this.allLines.filter(line => line.pen.visible);
+  }
+
+  private setYRange(values: number[]) {
+    if (!this.autoscale) {
+      this.yMin = Math.min(this.fixedMin, this.fixedMax);
+      this.yMax = Math.max(this.fixedMin, this.fixedMax);
+    } else if (values.length === 0) {
+      this.yMin = 0;
+      this.yMax = 1;
+    } else {
+      const min = Math.min(...values);
+      const max = Math.max(...values);
+      // Margen del 5% para que la línea no toque los bordes; una constante se centra
+      const padding = max === min ? Math.max(Math.abs(max) * 0.1, 1) : (max - min) * 0.05;
+      this.yMin = min - padding;
+      this.yMax = max + padding;
+    }
+    if (this.yMax === this.yMin) {
+      this.yMax = this.yMin + 1;
+    }
+  }
+
+  /**
+   * Muestras dentro de la ventana más la anterior al inicio, para que el trazo
+   * arranque en el borde izquierdo.
+   */
+  private samplesInWindow(samples: TrendSample[], start: number): TrendSample[] {
+    let first = 0;
+    while (first < samples.length && samples[first].t < start) {
+      first++;
+    }
+    return samples.slice(Math.max(0, first - 1)).filter(sample => sample.t <= this.viewEnd);
+  }
+
+  /**
+   * Trazo escalonado: un PLC se muestrea, así que el valor se mantiene hasta la
+   * siguiente muestra en vez de interpolarse.
+   */
+  private toPoints(samples: TrendSample[], start: number): string {
+    const x = (t: number) => Math.max(0, ((t - start) / this.windowMs) * WIDTH);
+    const y = (v: number) => HEIGHT - ((v - this.yMin) / (this.yMax - this.yMin)) * HEIGHT;
+    const points: string[] = [];
+    samples.forEach((sample, index) => {
+      if (index > 0) {
+        points.push(`${x(sample.t).toFixed(1)},${y(samples[index - 1].v).toFixed(1)}`);
+      }
+      points.push(`${x(sample.t).toFixed(1)},${y(sample.v).toFixed(1)}`);
+    });
+    const last = samples[samples.length - 1];
+    if (last && !this.paused) {
+      // En vivo el último valor sigue vigente hasta "ahora"
+      points.push(`${WIDTH},${y(last.v).toFixed(1)}`);
+    }
+    return points.join(' ');
+  }
+}
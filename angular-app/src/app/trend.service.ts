@@ -0,0 +1,185 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Subscription } from 'rxjs';
+import { TagSubscriptionService } from './tag-subscription.service';
+import { TagReadResponse } from './websocket.service';
+import { GatewayService } from './gateway.service';
+import { getValueByPath } from './tag-path';
+
+const STORAGE_PREFIX = 'plc-monitor.trend-pens.';
+
+/** Las muestras más antiguas que la ventana más larga del gráfico ya no se ven. */
+export const TREND_RETENTION_MS = 60 * 60 * 1000;
+const MAX_SAMPLES_PER_PEN = 20000;
+
+const PEN_COLORS = ['#2563EB', '#DC2626', '#16A34A', '#D97706', '#7C3AED', '#0891B2', '#DB2777', '#4B5563'];
+
+export interface TrendPen {
+  id: string;
+  tagName: string;
+  path: string;
+  color: string;
+  visible: boolean;
+}
+
+export interface TrendSample {
+  /** Epoch en ms. */
+  t: number;
+  v: number;
+}
+
+/**
+ * Valor representable en el gráfico: los números tal cual y los BOOL como 0/1.
+ */
+export function toTrendValue(value: any): number | null {
+  if (typeof value === 'boolean') {
+    return value ? 1 : 0;
+  }
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Plumas del gráfico de tendencias y sus muestras. Cada pluma es un miembro
+ * numérico o BOOL de un tag; las muestras salen de los `TagReadResponse` que
+ * llegan por el transporte en tiempo real. Las plumas se guardan por gateway;
+ * las muestras solo viven en memoria.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class TrendService {
+  private pens$ = new BehaviorSubject<TrendPen[]>([]);
+  private samples = new Map<string, TrendSample[]>();
+  private watches = new Map<string, Subscription>();
+
+  public pens = this.pens$.asObservable();
+
+  constructor(
+    private tagSubscriptions: TagSubscriptionService,
+    private gateways: GatewayService
+  ) {
+    this.gateways.activeGateway.subscribe(() => {
+      // Los watches y las muestras eran del backend anterior
+      this.watches.forEach(subscription => subscription.unsubscribe());
+      this.watches.clear();
+      this.samples.clear();
+      this.pens$.next(this.read());
+      this.syncWatches();
+    });
+  }
+
+  getPens(): TrendPen[] {
+    return this.pens$.value;
+  }
+
+  isPinned(tagName: string, path: string): boolean {
+    return this.pens$.value.some(pen => pen.tagName === tagName && pen.path === path);
+  }
+
+  /**
+   * Añade una pluma para `tagName.path`; false si ya estaba.
+   */
+  pin(tagName: string, path: string): boolean {
+    if (this.isPinned(tagName, path)) {
+      return false;
+    }
+    const pens = this.pens$.value;
+    // El primer color libre, para que quitar una pluma no repita colores
+    const color = PEN_COLORS.find(c => !pens.some(pen => pen.color === c)) ?? PEN_COLORS[pens.length % PEN_COLORS.length];
+    const pen: TrendPen = {
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      tagName,
+      path,
+      color,
+      visible: true
+    };
+    this.update([...pens, pen]);
+    return true;
+  }
+
+  unpin(penId: string): void {
+    this.samples.delete(penId);
+    this.update(this.pens$.value.filter(pen => pen.id !== penId));
+  }
+
+  toggleVisible(penId: string): void {
+    this.update(this.pens$.value.map(pen => pen.id === penId ? { ...pen, visible: !pen.visible } : pen));
+  }
+
+  getSamples(penId: string): TrendSample[] {
+    return this.samples.get(penId) ?? [];
+  }
+
+  clearSamples(): void {
+    this.samples.clear();
+  }
+
+  private update(pens: TrendPen[]) {
+    this.pens$.next(pens);
+    this.syncWatches();
+    try {
+      localStorage.setItem(this.storageKey(), JSON.stringify(pens));
+    } catch (err) {
+      console.warn('⚠️ Could not persist trend pens:', err);
+    }
+  }
+
+  /**
+   * Un watch por tag con plumas: se abre con la primera y se suelta con la última.
+   */
+  private syncWatches() {
+    const tagNames = new Set(this.pens$.value.map(pen => pen.tagName));
+    this.watches.forEach((subscription, tagName) => {
+      if (!tagNames.has(tagName)) {
+        subscription.unsubscribe();
+        this.watches.delete(tagName);
+      }
+    });
+    tagNames.forEach(tagName => {
+      if (!this.watches.has(tagName)) {
+        this.watches.set(tagName, this.tagSubscriptions.watch(tagName)
+          .subscribe(response => this.sample(tagName, response)));
+      }
+    });
+  }
+
+  private sample(tagName: string, response: TagReadResponse) {
+    if (response.hasError || response.value === undefined) {
+      return;
+    }
+    const t = Date.now();
+    this.pens$.value
+      .filter(pen => pen.tagName === tagName)
+      .forEach(pen => {
+        // Un tag escalar tiene su único nodo en 'value'
+        const raw = typeof response.value === 'object' && response.value !== null
+          ? getValueByPath(response.value, pen.path)
+          : response.value;
+        const v = toTrendValue(raw);
+        if (v === null) {
+          return;
+        }
+        const samples = this.samples.get(pen.id) ?? [];
+        samples.push({ t, v });
+        while (samples.length > MAX_SAMPLES_PER_PEN || (samples.length > 0 && samples[0].t < t - TREND_RETENTION_MS)) {
+          samples.shift();
+        }
+        this.samples.set(pen.id, samples);
+      });
+  }
+
+  private read(): TrendPen[] {
+    try {
+      const stored = JSON.parse(localStorage.getItem(this.storageKey()) ?? '[]');
+      return Array.isArray(stored)
+        ? stored.filter(pen => typeof pen?.id === 'string' && typeof pen?.tagName === 'string' && typeof pen?.path === 'string')
+            .map(pen => ({ ...pen, color: pen.color || PEN_COLORS[0], visible: pen.visible !== false }))
+        : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private storageKey(): string {
+    return STORAGE_PREFIX + this.gateways.getActiveGateway().id;
+  }
+}
@@ -0,0 +1,206 @@
+import { Injectable } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Subject, Subscription } from 'rxjs';
+import { GatewayService } from './gateway.service';
+import { AvailableTag } from './mqtt.service';
+import { splitPath } from './tag-path';
+
+export interface UdtMemberSchema {
+  /** Nombre tal y como aparece en el JSON del tag. */
+  name: string;
+  /** Tipo atómico Logix (DINT, REAL, STRING...) o nombre de otro UDT. */
+  dataType: string;
+  arrayLength?: number | null;
+  stringCapacity?: number | null;
+}
+
+export interface UdtSchema {
+  name: string;
+  members: UdtMemberSchema[];
+}
+
+export interface UdtSchemaResponse {
+  schemas: UdtSchema[];
+  tags: AvailableTag[];
+}
+
+/**
+ * Tipo resuelto para un path concreto de un tag.
+ */
+export interface ResolvedType {
+  dataType: string;
+  /** Definido si el path apunta al array completo y no a un elemento. */
+  arrayLength?: number;
+  stringCapacity?: number;
+  isUdt: boolean;
+}
+
+const INTEGER_RANGES: Record<string, [number, number]> = {
+  SINT: [-128, 127],
+  USINT: [0, 255],
+  INT: [-32768, 32767],
+  UINT: [0, 65535],
+  DINT: [-2147483648, 2147483647],
+  UDINT: [0, 4294967295],
+  LINT: [Number.MIN_SAFE_INTEGER, Number.MAX_SAFE_INTEGER],
+  ULINT: [0, Number.MAX_SAFE_INTEGER]
+};
+
+const REAL_MAX = 3.4028234663852886e38;
+
+/**
+ * Registro de esquemas UDT del gateway activo (`GET /api/mqtt/tags/schemas`).
+ * Permite etiquetar cada miembro con su tipo Logix y validar una escritura
+ * antes de enviarla. Si el esquema no está cargado o el path no se resuelve,
+ * no se opina: las escrituras pasan tal cual, como antes.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class UdtSchemaService {
+  private schemas = new Map<string, UdtSchema>();
+  private tags = new Map<string, AvailableTag>();
+  private loadSubscription?: Subscription;
+  private loaded$ = new Subject<void>();
+
+  /** Emite cada vez que llegan los esquemas de un gateway. */
+  public loaded = this.loaded$.asObservable();
+
+  constructor(
+    private http: HttpClient,
+    private gateways: GatewayService
+  ) {
+    this.gateways.activeGateway.subscribe(() => this.load());
+  }
+
+  getSchema(typeName: string): UdtSchema | undefined {
+    return this.schemas.get(typeName);
+  }
+
+  /**
+   * Resuelve el tipo de `path` dentro de `tagName`, p. ej. 'cavities[3].data.lotNumber'.
+   * Un path vacío es el tag completo.
+   */
+  resolve(tagName: string, path: string): ResolvedType | null {
+    const tag = this.tags.get(tagName);
+    if (!tag || !this.schemas.has(tag.type)) {
+      return null;
+    }
+
+    let current: ResolvedType = {
+      dataType: tag.type,
+      arrayLength: tag.dimensions?.[0],
+      isUdt: true
+    };
+
+    for (const segment of splitPath(path)) {
+      if (/^\d+$/.test(segment)) {
+        if (current.arrayLength === undefined || Number(segment) >= current.arrayLength) {
+          return null;
+        }
+        current = { ...current, arrayLength: undefined };
+        continue;
+      }
+
+      if (current.arrayLength !== undefined) {
+        return null;
+      }
+
+      // Un STRING llega como { value: '...' }: 'value' es el propio texto
+      if (current.dataType === 'STRING' && segment === 'value') {
+        continue;
+      }
+
+      const member = this.schemas.get(current.dataType)?.members.find(m => m.name === segment);
+      if (!member) {
+        return null;
+      }
+      current = {
+        dataType: member.dataType,
+        arrayLength: member.arrayLength ?? undefined,
+        stringCapacity: member.stringCapacity ?? undefined,
+        isUdt: this.schemas.has(member.dataType)
+      };
+    }
+
+    return current;
+  }
+
+  /**
+   * Etiqueta para la UI, p. ej. 'DINT', 'REAL[7]' o 'UDT_NGP_CAVITY[8]'.
+   */
+  typeLabel(tagName: string, path: string): string | undefined {
+    const resolved = this.resolve(tagName, path);
+    if (!resolved) {
+      return undefined;
+    }
+    return resolved.arrayLength !== undefined ? `${resolved.dataType}[${resolved.arrayLength}]` : resolved.dataType;
+  }
+
+  /**
+   * Devuelve un mensaje si `value` no cabe en el tipo Logix de `path`, o null si es válido
+   * (o si no se conoce el tipo).
+   */
+  validateWrite(tagName: string, path: string, value: unknown): string | null {
+    const resolved = this.resolve(tagName, path);
+    if (!resolved) {
+      return null;
+    }
+
+    const target = `${tagName}.${path}`;
+    if (resolved.arrayLength !== undefined || resolved.isUdt) {
+      return `${target} is ${this.typeLabel(tagName, path)}; write its members individually`;
+    }
+
+    const { dataType } = resolved;
+    if (dataType === 'STRING') {
+      if (typeof value !== 'string') {
+        return `${target} is STRING; expected text`;
+      }
+      if (!/^[\x00-\x7F]*$/.test(value)) {
+        return `${target} is STRING; only ASCII characters are allowed`;
+      }
+      const capacity = resolved.stringCapacity ?? 82;
+      return value.length > capacity ? `${target} is STRING(${capacity}); got ${value.length} characters` : null;
+    }
+
+    if (dataType === 'BOOL') {
+      return typeof value === 'boolean' ? null : `${target} is BOOL; expected true or false`;
+    }
+
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      return `${target} is ${dataType}; expected a number`;
+    }
+
+    const range = INTEGER_RANGES[dataType];
+    if (range) {
+      if (!Number.isInteger(value)) {
+        return `${target} is ${dataType}; expected an integer`;
+      }
+      return value < range[0] || value > range[1]
+        ? `${target} is ${dataType}; ${value} is outside ${range[0]}..${range[1]}`
+        : null;
+    }
+
+    if (dataType === 'REAL' && Math.abs(value) > REAL_MAX) {
+      return `${target} is REAL; ${value} is out of range`;
+    }
+    return null;
+  }
+
+  private load() {
+    // Los esquemas del gateway anterior no valen para el nuevo
+    this.loadSubscription?.unsubscribe();
+    this.schemas.clear();
+    this.tags.clear();
+    this.loadSubscription = this.http.get<UdtSchemaResponse>(this.gateways.apiUrl('/api/mqtt/tags/schemas')).subscribe({
+      next: (response) => {
+        this.schemas = new Map(response.schemas.map(schema => [schema.name, schema]));
+        this.tags = new Map(response.tags.map(tag => [tag.name, tag]));
+        console.log(`📐 Loaded ${this.schemas.size} UDT schemas`);
+        this.loaded$.next();
+      },
+      error: (err) => console.warn('⚠️ UDT schemas unavailable; writes will not be validated:', err)
+    });
+  }
+}
@@ -0,0 +1,162 @@
+/**
+ * Diff estructural entre dos lecturas de un tag. Recorre el valor anterior y
+ * el nuevo a la vez, una sola pasada, y produce un change set tipado con los
+ * mismos paths que usa el árbol (`cavities[3].data`).
+ */
+
+export type ValueChangeKind = 'changed' | 'added' | 'removed';
+
+export interface ValueChange {
+  path: string;
+  kind: ValueChangeKind;
+  oldValue?: any;
+  newValue?: any;
+}
+
+export interface ArrayResize {
+  path: string;
+  oldLength: number;
+  newLength: number;
+}
+
+export interface ChangeSet {
+  /** Hojas que cambiaron, y miembros (o subárboles enteros) añadidos o eliminados. */
+  changes: ValueChange[];
+  resized: ArrayResize[];
+  /** Cambió la forma del valor (miembros, longitudes o tipos): el árbol hay que reconstruirlo. */
+  structural: boolean;
+}
+
+export const EMPTY_CHANGE_SET: ChangeSet = { changes: [], resized: [], structural: false };
+
+export function isEmptyChangeSet(changeSet: ChangeSet): boolean {
+  return changeSet.changes.length === 0 && changeSet.resized.length === 0;
+}
+
+/**
+ * Path de un hijo con el formato del árbol: "data" + 3 -> "data[3]", "" + "speed" -> "speed".
+ */
+export function childPath(parent: string, key: string | number): string {
+  if (typeof key === 'number') {
+    return `${parent}[${key}]`;
+  }
+  return parent ? `${parent}.${key}` : key;
+}
+
+export function diffValues(oldValue: any, newValue: any): ChangeSet {
+  const changeSet: ChangeSet = { changes: [], resized: [], structural: false };
+  diffAt(oldValue, newValue, '', changeSet);
+  return changeSet;
+}
+
+function diffAt(oldValue: any, newValue: any, path: string, changeSet: ChangeSet) {
+  if (Object.is(oldValue, newValue)) {
+    return;
+  }
+
+  if (Array.isArray(oldValue) && Array.isArray(newValue)) {
+    if (oldValue.length !== newValue.length) {
+      changeSet.resized.push({ path, oldLength: oldValue.length, newLength: newValue.length });
+      changeSet.structural = true;
+    }
+    const length = Math.max(oldValue.length, newValue.length);
+    for (let index = 0; index < length; index++) {
+      const itemPath = childPath(path, index);
+      if (index >= newValue.length) {
+        changeSet.changes.push({ path: itemPath, kind: 'removed', oldValue: oldValue[index] });
+      } else if (index >= oldValue.length) {
+        changeSet.changes.push({ path: itemPath, kind: 'added', newValue: newValue[index] });
+      } else {
+        diffAt(oldValue[index], newValue[index], itemPath, changeSet);
+      }
+    }
+    return;
+  }
+
+  if (isRecord(oldValue) && isRecord(newValue)) {
+    for (const key of Object.keys(oldValue)) {
+      const memberPath = childPath(path, key);
+      if (!(key in newValue)) {
+        changeSet.changes.push({ path: memberPath, kind: 'removed', oldValue: oldValue[key] });
+        changeSet.structural = true;
+      } else {
+        diffAt(oldValue[key], newValue[key], memberPath, changeSet);
+      }
+    }
+    for (const key of Object.keys(newValue)) {
+      if (!(key in oldValue)) {
+        changeSet.changes.push({ path: childPath(path, key), kind: 'added', newValue: newValue[key] });
+        changeSet.structural = true;
+      }
+    }
+    return;
+  }
+
+  // Hojas distintas, o un miembro que pasó de escalar a contenedor (o al revés)
+  changeSet.changes.push({ path, kind: 'changed', oldValue, newValue });
+  if (isContainer(oldValue) || isContainer(newValue)) {
+    changeSet.structural = true;
+  }
+}
+
+function isRecord(value: any): boolean {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isContainer(value: any): boolean {
+  return typeof value === 'object' && value !== null;
+}
+
+export type LeafComparisonKind = ValueChangeKind | 'unchanged';
+
+/** Una hoja comparada entre dos valores completos, para verlos lado a lado. */
+export interface LeafComparison {
+  path: string;
+  kind: LeafComparisonKind;
+  left?: any;
+  right?: any;
+}
+
+/**
+ * Hojas de un valor por path (`cavities[3].data.value` -> 12.5). Los
+ * contenedores vacíos cuentan como hoja para que no desaparezcan del diff.
+ */
+export function flattenLeaves(value: any, path: string = '', leaves: Map<string, any> = new Map()): Map<string, any> {
+  if (Array.isArray(value) && value.length > 0) {
+    value.forEach((item, index) => flattenLeaves(item, childPath(path, index), leaves));
+  } else if (typeof value === 'object' && value !== null && !Array.isArray(value) && Object.keys(value).length > 0) {
+    Object.keys(value).forEach(key => flattenLeaves(value[key], childPath(path, key), leaves));
+  } else {
+    leaves.set(path, value);
+  }
+  return leaves;
+}
+
+/**
+ * Compara dos valores hoja a hoja, incluidas las que no cambian, en el orden
+ * del valor izquierdo y con las añadidas al final.
+ */
+export function compareLeaves(left: any, right: any): LeafComparison[] {
+  const leftLeaves = flattenLeaves(left);
+  const rightLeaves = flattenLeaves(right);
+  const rows: LeafComparison[] = [];
+  leftLeaves.forEach((value, path) => {
+    if (!rightLeaves.has(path)) {
+      rows.push({ path, kind: 'removed', left: value });
+    } else {
+      const other = rightLeaves.get(path);
+      rows.push({ path, kind: sameLeaf(value, other) ? 'unchanged' : 'changed', left: value, right: other });
+    }
+  });
+  rightLeaves.forEach((value, path) => {
+    if (!leftLeaves.has(path)) {
+      rows.push({ path, kind: 'added', right: value });
+    }
+  });
+  return rows;
+}
+
+/** Dos `[]` o dos `{}` son la misma hoja aunque no sean el mismo objeto. */
+function sameLeaf(a: any, b: any): boolean {
+  return Object.is(a, b) || (isContainer(a) && isContainer(b) && JSON.stringify(a) === JSON.stringify(b));
+}
@@ -0,0 +1,315 @@
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { interval, skip, Subscription } from 'rxjs';
+import { MqttService, AvailableTag } from './mqtt.service';
+import { PlcService, BatchWriteTagResult } from './plc.service';
+import { GatewayService } from './gateway.service';
+import { UdtSchemaService } from './udt-schema.service';
+import { NotificationService } from './notification.service';
+
+const STORAGE_PREFIX = 'plc-monitor.watch-list.';
+const REFRESH_INTERVAL_MS = 5000;
+
+interface WatchItem {
+  /** Tag o miembro completo, p. ej. 'ngpSampleCurrent.temperature'. */
+  name: string;
+  value?: unknown;
+  /** El PLC no devolvió el tag en la última lectura. */
+  missing?: boolean;
+  draft?: string;
+  result?: BatchWriteTagResult;
+}
+
+/**
+ * Lista de tags vigilados que se leen todos juntos con `POST /api/plc/tags/batch`
+ * y se editan en bloque con `batch-write`. Se guarda por gateway en localStorage.
+ */
+@Component({
+  selector: 'app-watch-list',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  template: `
+    <div class="watch-panel">
+      <div class="watch-header">
+        <strong>👁️ Watch list ({{ items.length }})</strong>
+        <select [(ngModel)]="newTagName" class="watch-input">
+          <option value="">-- Tag --</option>
+          <option *ngFor="let tag of availableTags" [value]="tag.name">{{ tag.name }} ({{ tag.type }})</option>
+        </select>
+        <input [(ngModel)]="newMemberPath" placeholder="member path (optional)" class="watch-input" (keyup.enter)="addItem()" />
+        <button class="btn-small" (click)="addItem()" [disabled]="!newTagName">Add</button>
+        <span class="watch-actions">
+          <label><input type="checkbox" [(ngModel)]="autoRefresh" (change)="toggleAutoRefresh()" /> Auto (5s)</label>
+          <button class="btn-small" (click)="refresh()" [disabled]="refreshing || items.length === 0">🔄 Refresh</button>
+          <button class="btn-small" (click)="applyEdits()" [disabled]="applying || countDrafts() === 0">
+            ✏️ Apply {{ countDrafts() }} edit(s)
+          </button>
+        </span>
+      </div>
+
+      <div *ngIf="lastRefresh" class="watch-meta">Last refresh {{ lastRefresh | date:'HH:mm:ss' }}</div>
+
+      <div *ngIf="items.length > 0" class="watch-grid">
+        <ng-container *ngFor="let item of items; trackBy: trackByName">
+          <span class="mono" [title]="item.name">{{ item.name }} <span class="watch-type">{{ typeLabel(item) }}</span></span>
+          <span class="mono" [class.watch-error]="item.missing">{{ item.missing ? 'not returned' : formatValue(item.value) }}</span>
+          <input
+            *ngIf="isEditable(item); else noEdit"
+            [(ngModel)]="item.draft"
+            placeholder="new value"
+            class="watch-input"
+          />
+          <ng-template #noEdit><span></span></ng-template>
+          <span [class.watch-error]="item.result && !item.result.success">
+            {{ item.result ? (item.result.success ? '✅' : '❌ ' + item.result.error) : '' }}
+          </span>
+          <button class="btn-small danger" (click)="removeItem(item)" title="Remove">✕</button>
+        </ng-container>
+      </div>
+    </div>
+  `,
+  styles: [`
+    .watch-panel { margin-bottom: 20px; padding: 12px 16px; border: 1px solid #dee2e6; border-radius: 8px; font-size: 13px; }
+    .watch-header { display: flex; flex-wrap: wrap; gap: 8px; align-items: center; margin-bottom: 8px; }
+    .watch-actions { margin-left: auto; display: flex; gap: 6px; align-items: center; }
+    .watch-input { padding: 3px 6px; font-size: 12px; border: 1px solid #ced4da; border-radius: 4px; }
+    .watch-grid { display: grid; grid-template-columns: minmax(140px, 2fr) 3fr minmax(90px, 1fr) 1fr auto; gap: 4px 10px; align-items: center; }
+    .watch-grid > span { overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+    .mono { font-family: 'Monaco', 'Menlo', 'Courier New', monospace; }
+    .watch-error { color: #721c24; }
+    .watch-type { color: #6c757d; font-size: 11px; }
+    .watch-meta { color: #6c757d; font-size: 11px; margin-bottom: 6px; }
+  `]
+})
+export class WatchListComponent implements OnInit, OnDestroy {
+  items: WatchItem[] = [];
+  availableTags: AvailableTag[] = [];
+  newTagName: string = '';
+  newMemberPath: string = '';
+  autoRefresh: boolean = false;
+  refreshing: boolean = false;
+  applying: boolean = false;
+  lastRefresh?: Date;
+  private refreshSubscription?: Subscription;
+  private readSubscription?: Subscription;
+  private gatewaySubscription?: Subscription;
+
+  constructor(
+    private mqttService: MqttService,
+    private plcService: PlcService,
+    private gateways: GatewayService,
+    private udtSchemas: UdtSchemaService,
+    private notifications: NotificationService
+  ) {}
+
+  ngOnInit() {
+    this.load();
+    this.gatewaySubscription = this.gateways.activeGateway.pipe(skip(1)).subscribe(() => this.load());
+  }
+
+  ngOnDestroy() {
+    this.refreshSubscription?.unsubscribe();
+    this.readSubscription?.unsubscribe();
+    this.gatewaySubscription?.unsubscribe();
+  }
+
+  addItem() {
+    const memberPath = this.newMemberPath.trim().replace(/^\./, '');
+    const name = memberPath ? `${this.newTagName}.${memberPath}` : this.newTagName;
+    if (!this.newTagName || this.items.some(item => item.name === name)) {
+      return;
+    }
+    this.items = [...this.items, { name }];
+    this.newMemberPath = '';
+    this.save();
+    this.refresh();
+  }
+
+  removeItem(item: WatchItem) {
+    this.items = this.items.filter(existing => existing !== item);
+    this.save();
+  }
+
+  toggleAutoRefresh() {
+    this.refreshSubscription?.unsubscribe();
+    this.refreshSubscription = undefined;
+    if (this.autoRefresh) {
+      this.refreshSubscription = interval(REFRESH_INTERVAL_MS).subscribe(() => this.refresh());
+      this.refresh();
+    }
+  }
+
+  /**
+   * Lee todos los tags de la lista en una sola petición batch.
+   */
+  refresh() {
+    if (this.refreshing || this.items.length === 0) {
+      return;
+    }
+    this.refreshing = true;
+    this.readSubscription = this.plcService.readTags(this.items.map(item => item.name)).subscribe({
+      next: (values) => {
+        this.items.forEach(item => {
+          item.missing = !Object.prototype.hasOwnProperty.call(values, item.name);
+          item.value = values[item.name];
+        });
+        this.lastRefresh = new Date();
+        this.refreshing = false;
+      },
+      error: (err) => {
+        this.notifications.error('Error reading watch list', err);
+        this.refreshing = false;
+      }
+    });
+  }
+
+  /**
+   * Envía todas las ediciones pendientes en un único batch-write y muestra el
+   * resultado de cada tag; las que fallan conservan el borrador para reintentar.
+   * Las que no se pueden interpretar (número o BOOL) o no caben en su tipo Logix
+   * se marcan como fallidas sin enviarse.
+   */
+  applyEdits() {
+    const values: Record<string, unknown> = {};
+    const edited = this.items.filter(item => this.hasDraft(item)).filter(item => {
+      const converted = this.convertDraft(item);
+      if ('error' in converted) {
+        item.result = { tagName: item.name, success: false, error: converted.error };
+        return false;
+      }
+      const value = converted.value;
+      const [tagName, path] = this.splitName(item.name);
+      const invalid = this.udtSchemas.validateWrite(tagName, path, value);
+      if (invalid) {
+        item.result = { tagName: item.name, success: false, error: invalid };
+        return false;
+      }
+      values[item.name] = value;
+      return true;
+    });
+    if (edited.length === 0) {
+      return;
+    }
+
+    this.applying = true;
+    this.plcService.writeTags(values).subscribe({
+      next: (response) => {
+        const results = new Map(response.results.map(result => [result.tagName, result]));
+        edited.forEach(item => {
+          item.result = results.get(item.name) ?? { tagName: item.name, success: false, error: 'No result returned' };
+          if (item.result.success) {
+            item.draft = undefined;
+          }
+        });
+        this.applying = false;
+        this.refresh();
+      },
+      error: (err) => {
+        this.notifications.error('Error writing watch list', err);
+        this.applying = false;
+      }
+    });
+  }
+
+  countDrafts(): number {
+    return this.items.filter(item => this.hasDraft(item)).length;
+  }
+
+  isEditable(item: WatchItem): boolean {
+    return !item.missing && item.value !== undefined && (item.value === null || typeof item.value !== 'object');
+  }
+
+  formatValue(value: unknown): string {
+    if (value === undefined) {
+      return '—';
+    }
+    if (value !== null && typeof value === 'object') {
+      const json = JSON.stringify(value);
+      return json.length > 80 ? `${json.substring(0, 77)}...` : json;
+    }
+    return String(value);
+  }
+
+  typeLabel(item: WatchItem): string {
+    const [tagName, path] = this.splitName(item.name);
+    return this.udtSchemas.typeLabel(tagName, path) ?? '';
+  }
+
+  trackByName(_index: number, item: WatchItem): string {
+    return item.name;
+  }
+
+  /**
+   * 'tag.member[2].x' -> ['tag', 'member[2].x']; también admite 'tag[3].x'.
+   */
+  private splitName(name: string): [string, string] {
+    const match = /^([^.[]+)\.?(.*)$/.exec(name);
+    return match ? [match[1], match[2]] : [name, ''];
+  }
+
+  private hasDraft(item: WatchItem): boolean {
+    return item.draft !== undefined && item.draft !== '';
+  }
+
+  /**
+   * Mismo criterio que el árbol: el borrador toma el tipo del valor actual.
+   * Un número o BOOL que no se puede interpretar entero ("12abc", "yes")
+   * devuelve un error en lugar de un valor.
+   */
+  private convertDraft(item: WatchItem): { value: unknown } | { error: string } {
+    const draft = String(item.draft).trim();
+    if (typeof item.value === 'number') {
+      const value = Number(draft);
+      return draft === '' || !Number.isFinite(value) ? { error: `"${item.draft}" is not a number` } : { value };
+    }
+    if (typeof item.value === 'boolean') {
+      switch (draft.toLowerCase()) {
+        case 'true':
+        case '1':
+          return { value: true };
+        case 'false':
+        case '0':
+          return { value: false };
+        default:
+          return { error: `"${item.draft}" is not a BOOL (true, false, 1 or 0)` };
+      }
+    }
+    return { value: String(item.draft) };
+  }
+
+  private load() {
+    // Una lectura en curso pertenece al gateway anterior
+    this.readSubscription?.unsubscribe();
+    this.refreshing = false;
+    this.items = this.readStoredNames().map(name => ({ name }));
+    this.availableTags = [];
+    this.lastRefresh = undefined;
+    this.mqttService.getAvailableTags().subscribe({
+      next: (response) => this.availableTags = response.tags,
+      error: (err) => this.notifications.error('Error loading available tags for watch list', err)
+    });
+    this.refresh();
+  }
+
+  private storageKey(): string {
+    return STORAGE_PREFIX + this.gateways.getActiveGateway().id;
+  }
+
+  private readStoredNames(): string[] {
+    try {
+      const stored = JSON.parse(localStorage.getItem(this.storageKey()) ?? '[]');
+      return Array.isArray(stored) ? stored.filter((name): name is string => typeof name === 'string') : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private save() {
+    try {
+      localStorage.setItem(this.storageKey(), JSON.stringify(this.items.map(item => item.name)));
+    } catch (err) {
+      console.warn('⚠️ Could not persist watch list:', err);
+    }
+  }
+}
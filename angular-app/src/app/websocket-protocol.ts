@@ -0,0 +1,364 @@
+import { JSON_PATCH_OPS, JsonPatchOperation } from './json-patch';
+
+/**
+ * Protocolo de mensajes entre el SPA y `WebSocketMiddleware` (`/ws/plctag`).
+ *
+ * Cada frame es un objeto JSON con un campo `type` que discrimina el mensaje.
+ * Mantener este archivo sincronizado con `Middleware/WebSocketMiddleware.cs`
+ * y con los handlers que publican por `WebSocketManager`.
+ */
+
+export interface TagReadResponse {
+  tagName: string;
+  value: any;
+  quality: string;
+  timestamp: string;
+  correlationId?: string;
+  hasError: boolean;
+  errorMessage?: string;
+}
+
+export interface TagWriteResponse {
+  tagName: string;
+  path: string;
+  fullTagName: string;
+  value: any;
+  success: boolean;
+  timestamp: string;
+  correlationId?: string;
+  errorMessage?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Servidor -> cliente
+// ---------------------------------------------------------------------------
+
+export interface TagReadResponseMessage extends TagReadResponse {
+  type: 'TagReadResponse';
+}
+
+export interface TagWriteResponseMessage extends TagWriteResponse {
+  type: 'TagWriteResponse';
+}
+
+/**
+ * Modo delta: valor completo que fija la línea base versionada de un tag.
+ * Se recibe tras suscribirse con `mode: 'delta'` o tras pedir `resync`.
+ */
+export interface TagSnapshotMessage {
+  type: 'TagSnapshot';
+  tagName: string;
+  version: number;
+  value: any;
+  quality: string;
+  timestamp: string;
+  correlationId?: string;
+}
+
+/**
+ * Modo delta: cambios RFC 6902 respecto a la versión `baseVersion`.
+ */
+export interface TagDeltaMessage {
+  type: 'TagDelta';
+  tagName: string;
+  baseVersion: number;
+  version: number;
+  patch: JsonPatchOperation[];
+  quality: string;
+  timestamp: string;
+  correlationId?: string;
+}
+
+export interface PongMessage {
+  type: 'pong';
+  /** Eco del `timestamp` enviado en el ping, si lo hubo. */
+  timestamp?: number;
+}
+
+export interface SubscribedMessage {
+  type: 'subscribed';
+  tagName: string;
+  mode?: SubscriptionMode;
+}
+
+export interface UnsubscribedMessage {
+  type: 'unsubscribed';
+  tagName: string;
+}
+
+export interface ServerErrorMessage {
+  type: 'error';
+  message: string;
+  code?: string;
+  tagName?: string;
+}
+
+export type ServerMessage =
+  | TagReadResponseMessage
+  | TagWriteResponseMessage
+  | TagSnapshotMessage
+  | TagDeltaMessage
+  | PongMessage
+  | SubscribedMessage
+  | UnsubscribedMessage
+  | ServerErrorMessage;
+
+export type ServerMessageType = ServerMessage['type'];
+
+// ---------------------------------------------------------------------------
+// Cliente -> servidor
+// ---------------------------------------------------------------------------
+
+export interface PingMessage {
+  type: 'ping';
+  timestamp?: number;
+}
+
+/**
+ * `full`: cada lectura trae el UDT completo (`TagReadResponse`).
+ * `delta`: `TagSnapshot` inicial y luego `TagDelta`. Un servidor que no
+ * soporte deltas ignora el campo y sigue enviando `TagReadResponse`.
+ */
+export type SubscriptionMode = 'full' | 'delta';
+
+export interface SubscribeMessage {
+  type: 'subscribe';
+  tagName: string;
+  mode?: SubscriptionMode;
+}
+
+export interface UnsubscribeMessage {
+  type: 'unsubscribe';
+  tagName: string;
+}
+
+/**
+ * Pide una nueva línea base tras detectar un hueco en las versiones.
+ */
+export interface ResyncMessage {
+  type: 'resync';
+  tagName: string;
+}
+
+export type ClientMessage = PingMessage | SubscribeMessage | UnsubscribeMessage | ResyncMessage;
+
+// ---------------------------------------------------------------------------
+// Decodificador
+// ---------------------------------------------------------------------------
+
+/**
+ * Resultado de decodificar un frame entrante:
+ * - `message`: frame válido de un tipo conocido.
+ * - `unknown`: JSON válido con un `type` que este cliente no conoce (p. ej. un
+ *   tipo push nuevo del servidor). Se reporta para diagnóstico.
+ * - `malformed`: no es JSON, no tiene `type`, o le faltan campos obligatorios.
+ */
+export type DecodeResult =
+  | { kind: 'message'; message: ServerMessage }
+  | { kind: 'unknown'; type: string; raw: unknown }
+  | { kind: 'malformed'; reason: string; raw: unknown };
+
+export interface UnknownMessage {
+  type: string;
+  raw: unknown;
+  receivedAt: string;
+}
+
+export interface MalformedMessage {
+  reason: string;
+  raw: unknown;
+  receivedAt: string;
+}
+
+class FieldError extends Error {}
+
+type Fields = Record<string, unknown>;
+
+function requireString(fields: Fields, name: string): string {
+  const value = fields[name];
+  if (typeof value !== 'string') {
+    throw new FieldError(`"${name}" must be a string`);
+  }
+  return value;
+}
+
+function optionalString(fields: Fields, name: string): string | undefined {
+  const value = fields[name];
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'string') {
+    throw new FieldError(`"${name}" must be a string when present`);
+  }
+  return value;
+}
+
+function optionalBoolean(fields: Fields, name: string, fallback: boolean): boolean {
+  const value = fields[name];
+  if (value === undefined || value === null) {
+    return fallback;
+  }
+  if (typeof value !== 'boolean') {
+    throw new FieldError(`"${name}" must be a boolean when present`);
+  }
+  return value;
+}
+
+function optionalNumber(fields: Fields, name: string): number | undefined {
+  const value = fields[name];
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'number') {
+    throw new FieldError(`"${name}" must be a number when present`);
+  }
+  return value;
+}
+
+function requireNumber(fields: Fields, name: string): number {
+  const value = fields[name];
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new FieldError(`"${name}" must be a number`);
+  }
+  return value;
+}
+
+function optionalMode(fields: Fields, name: string): SubscriptionMode | undefined {
+  const value = optionalString(fields, name);
+  if (value !== undefined && value !== 'full' && value !== 'delta') {
+    throw new FieldError(`"${name}" must be "full" or "delta"`);
+  }
+  return value;
+}
+
+function requirePatch(fields: Fields, name: string): JsonPatchOperation[] {
+  const value = fields[name];
+  if (!Array.isArray(value)) {
+    throw new FieldError(`"${name}" must be an array`);
+  }
+  return value.map((item, index) => {
+    if (typeof item !== 'object' || item === null) {
+      throw new FieldError(`"${name}[${index}]" must be an object`);
+    }
+    const operation = item as Fields;
+    const op = requireString(operation, 'op');
+    if (!JSON_PATCH_OPS.includes(op as JsonPatchOperation['op'])) {
+      throw new FieldError(`"${name}[${index}].op" "${op}" is not a JSON Patch operation`);
+    }
+    requireString(operation, 'path');
+    if (op === 'move' || op === 'copy') {
+      requireString(operation, 'from');
+    }
+    if ((op === 'add' || op === 'replace' || op === 'test') && !('value' in operation)) {
+      throw new FieldError(`"${name}[${index}]" (${op}) requires a value`);
+    }
+    return operation as unknown as JsonPatchOperation;
+  });
+}
+
+const decoders: { [K in ServerMessageType]: (fields: Fields) => Extract<ServerMessage, { type: K }> } = {
+  TagReadResponse: fields => ({
+    type: 'TagReadResponse',
+    tagName: requireString(fields, 'tagName'),
+    value: fields['value'],
+    quality: optionalString(fields, 'quality') ?? '',
+    timestamp: optionalString(fields, 'timestamp') ?? new Date().toISOString(),
+    correlationId: optionalString(fields, 'correlationId'),
+    hasError: optionalBoolean(fields, 'hasError', false),
+    errorMessage: optionalString(fields, 'errorMessage')
+  }),
+  TagWriteResponse: fields => ({
+    type: 'TagWriteResponse',
+    tagName: requireString(fields, 'tagName'),
+    path: optionalString(fields, 'path') ?? '',
+    fullTagName: optionalString(fields, 'fullTagName') ?? '',
+    value: fields['value'],
+    success: optionalBoolean(fields, 'success', false),
+    timestamp: optionalString(fields, 'timestamp') ?? new Date().toISOString(),
+    correlationId: optionalString(fields, 'correlationId'),
+    errorMessage: optionalString(fields, 'errorMessage')
+  }),
+  TagSnapshot: fields => ({
+    type: 'TagSnapshot',
+    tagName: requireString(fields, 'tagName'),
+    version: requireNumber(fields, 'version'),
+    value: fields['value'],
+    quality: optionalString(fields, 'quality') ?? '',
+    timestamp: optionalString(fields, 'timestamp') ?? new Date().toISOString(),
+    correlationId: optionalString(fields, 'correlationId')
+  }),
+  TagDelta: fields => ({
+    type: 'TagDelta',
+    tagName: requireString(fields, 'tagName'),
+    baseVersion: requireNumber(fields, 'baseVersion'),
+    version: requireNumber(fields, 'version'),
+    patch: requirePatch(fields, 'patch'),
+    quality: optionalString(fields, 'quality') ?? '',
+    timestamp: optionalString(fields, 'timestamp') ?? new Date().toISOString(),
+    correlationId: optionalString(fields, 'correlationId')
+  }),
+  pong: fields => ({
+    type: 'pong',
+    timestamp: optionalNumber(fields, 'timestamp')
+  }),
+  subscribed: fields => ({
+    type: 'subscribed',
+    tagName: requireString(fields, 'tagName'),
+    mode: optionalMode(fields, 'mode')
+  }),
+  unsubscribed: fields => ({
+    type: 'unsubscribed',
+    tagName: requireString(fields, 'tagName')
+  }),
+  error: fields => ({
+    type: 'error',
+    message: requireString(fields, 'message'),
+    code: optionalString(fields, 'code'),
+    tagName: optionalString(fields, 'tagName')
+  })
+};
+
+function isKnownType(type: string): type is ServerMessageType {
+  return Object.prototype.hasOwnProperty.call(decoders, type);
+}
+
+/**
+ * Valida un frame ya parseado y lo convierte a `ServerMessage`.
+ */
+export function decodeServerMessage(raw: unknown): DecodeResult {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return { kind: 'malformed', reason: 'Frame is not a JSON object', raw };
+  }
+
+  const fields = raw as Fields;
+  const type = fields['type'];
+  if (typeof type !== 'string') {
+    return { kind: 'malformed', reason: 'Frame has no "type" field', raw };
+  }
+
+  if (!isKnownType(type)) {
+    return { kind: 'unknown', type, raw };
+  }
+
+  try {
+    return { kind: 'message', message: decoders[type](fields) };
+  } catch (err) {
+    if (err instanceof FieldError) {
+      return { kind: 'malformed', reason: `${type}: ${err.message}`, raw };
+    }
+    throw err;
+  }
+}
+
+/**
+ * Parsea el texto de un frame y lo decodifica.
+ */
+export function decodeServerFrame(data: string): DecodeResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(data);
+  } catch {
+    return { kind: 'malformed', reason: 'Frame is not valid JSON', raw: data };
+  }
+  return decodeServerMessage(parsed);
+}
@@ -0,0 +1,42 @@
+import { TagTransport, TagTransportConnection, TagTransportHandlers } from './tag-transport';
+import { ClientMessage } from './websocket-protocol';
+
+/**
+ * Convierte '/ws/plctag' en 'ws(s)://<host>/ws/plctag'; las URLs absolutas se
+ * usan tal cual.
+ */
+export function resolveWebSocketUrl(url: string): string {
+  if (/^wss?:\/\//.test(url)) {
+    return url;
+  }
+  const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+  return `${protocol}//${window.location.host}${url.startsWith('/') ? '' : '/'}${url}`;
+}
+
+/**
+ * Transporte original: un `WebSocket` nativo contra `WebSocketMiddleware`.
+ */
+export class WebSocketTransport implements TagTransport {
+  readonly kind = 'websocket' as const;
+  readonly description: string;
+  private readonly url: string;
+
+  constructor(url: string) {
+    this.url = resolveWebSocketUrl(url);
+    this.description = this.url;
+  }
+
+  open(handlers: TagTransportHandlers): TagTransportConnection {
+    const socket = new WebSocket(this.url);
+    socket.onopen = () => handlers.onOpen();
+    socket.onmessage = (event) => handlers.onMessage(event.data);
+    socket.onerror = (error) => handlers.onError(error);
+    socket.onclose = () => handlers.onClose();
+
+    return {
+      send: (message: ClientMessage) => socket.send(JSON.stringify(message)),
+      close: () => socket.close(),
+      isOpen: () => socket.readyState === WebSocket.OPEN
+    };
+  }
+}
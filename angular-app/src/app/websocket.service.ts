@@ -1,90 +1,255 @@
-import { Injectable } from '@angular/core';
-import { Subject } from 'rxjs';
+import { Inject, Injectable } from '@angular/core';
+import { BehaviorSubject, Observable, Subject, Subscription, filter, firstValueFrom, skip, take } from 'rxjs';
+import { MqttService } from './mqtt.service';
+import {
+  TAG_TRANSPORT,
+  TAG_TRANSPORT_CONFIG,
+  TagTransport,
+  TagTransportConfig,
+  TagTransportConnection,
+  createTagTransport
+} from './tag-transport';
+import { GatewayService } from './gateway.service';
+import { TagRequestError } from './tag-request-error';
+import { describeError } from './api-error';
+import { JsonPatchError, applyPatch } from './json-patch';
+import {
+  ClientMessage,
+  MalformedMessage,
+  ServerErrorMessage,
+  ServerMessage,
+  SubscribedMessage,
+  SubscriptionMode,
+  TagDeltaMessage,
+  TagReadResponse,
+  TagSnapshotMessage,
+  TagWriteResponse,
+  UnknownMessage,
+  UnsubscribedMessage,
+  decodeServerFrame,
+  decodeServerMessage
+} from './websocket-protocol';
 
-export interface TagReadResponse {
-  tagName: string;
-  value: any;
-  quality: string;
-  timestamp: string;
-  correlationId?: string;
-  hasError: boolean;
-  errorMessage?: string;
+export type { TagReadResponse, TagWriteResponse } from './websocket-protocol';
+
+type WebSocketState = 'connecting' | 'connected' | 'disconnected' | 'error';
+
+/**
+ * Salud del enlace en tiempo real, derivada del ping/pong y del tráfico entrante.
+ */
+export interface ConnectionHealth {
+  state: WebSocketState;
+  /** Round-trip del último ping/pong (ms). */
+  rttMs?: number;
+  lastMessageAt?: string;
+  /** Reconexiones exitosas desde que arrancó el servicio. */
+  reconnectCount: number;
+  /** Mensajes recibidos por segundo, promediados en la ventana reciente. */
+  messagesPerSecond: number;
+  missedPongs: number;
+  /** El socket parece abierto pero dejó de contestar pings (half-open). */
+  stale: boolean;
+}
+
+const PING_INTERVAL_MS = 15000;
+const PONG_TIMEOUT_MS = 10000;
+const MAX_MISSED_PONGS = 2;
+const MESSAGE_RATE_WINDOW_MS = 10000;
+
+/**
+ * Opciones por llamada para `readTag`/`writeTag`.
+ */
+export interface TagRequestOptions {
+  /** Tiempo máximo de espera de la respuesta correlacionada (ms). */
+  timeoutMs?: number;
+  /** Permite cancelar la espera desde fuera (p. ej. al usar la variante Promise). */
+  signal?: AbortSignal;
+}
+
+const DEFAULT_REQUEST_TIMEOUT_MS = 10000;
+
+/**
+ * Próximo intento de reconexión programado.
+ */
+export interface ReconnectSchedule {
+  attempt: number;
+  delayMs: number;
 }
 
-export interface TagWriteResponse {
+/**
+ * Resync pedido porque un `TagDelta` no encajaba con la línea base local.
+ */
+export interface DeltaResync {
   tagName: string;
-  path: string;
-  fullTagName: string;
-  value: any;
-  success: boolean;
-  timestamp: string;
-  correlationId?: string;
-  errorMessage?: string;
+  reason: string;
+  requestedAt: string;
 }
 
-type WebSocketState = 'connecting' | 'connected' | 'disconnected' | 'error';
+interface DeltaBaseline {
+  version: number;
+  value: any;
+}
 
 @Injectable({
   providedIn: 'root'
 })
 export class WebSocketService {
-  private websocket?: WebSocket;
+  private connection?: TagTransportConnection;
+  private currentState: WebSocketState = 'disconnected';
   private connectionState$ = new Subject<WebSocketState>();
   private tagReadResponse$ = new Subject<TagReadResponse>();
   private tagWriteResponse$ = new Subject<TagWriteResponse>();
+  private reconnectSchedule$ = new Subject<ReconnectSchedule>();
+  private health$ = new BehaviorSubject<ConnectionHealth>({
+    state: 'disconnected',
+    reconnectCount: 0,
+    messagesPerSecond: 0,
+    missedPongs: 0,
+    stale: false
+  });
+  private subscriptionAck$ = new Subject<SubscribedMessage | UnsubscribedMessage>();
+  private serverError$ = new Subject<ServerErrorMessage>();
+  private unknownMessage$ = new Subject<UnknownMessage>();
+  private malformedMessage$ = new Subject<MalformedMessage>();
   private reconnectAttempts = 0;
-  private maxReconnectAttempts = 5;
-  private reconnectDelay = 1000;
+  private readonly baseReconnectDelay = 1000;
+  private readonly maxReconnectDelay = 30000;
   private reconnectTimer?: number;
+  private manuallyDisconnected = false;
+  // Tags suscritos vía subscribeToTag; se reenvían cada vez que el socket abre
+  private subscribedTags = new Set<string>();
+  private hasConnectedOnce = false;
+  private pendingPingSentAt?: number;
+  private pongTimer?: number;
+  private messageTimes: number[] = [];
+  private healthTimer?: number;
+  private subscriptionMode: SubscriptionMode;
+  // Modo delta: última versión aplicada de cada tag
+  private baselines = new Map<string, DeltaBaseline>();
+  // Tags con un resync en curso; sus deltas se descartan hasta el próximo snapshot
+  private pendingResyncs = new Set<string>();
+  // Lecturas correlacionadas cuyo delta se descartó; se contestan con el snapshot
+  private deferredReads = new Map<string, string[]>();
+  private deltaResync$ = new Subject<DeltaResync>();
+  // Avisa a las peticiones correlacionadas en curso de que su backend ya no está
+  private transportChanged$ = new Subject<void>();
 
   // Observables públicos
   public connectionState = this.connectionState$.asObservable();
+  public reconnectSchedule = this.reconnectSchedule$.asObservable();
+  public health = this.health$.asObservable();
+  public subscriptionAcks = this.subscriptionAck$.asObservable();
+  public serverErrors = this.serverError$.asObservable();
+  // Diagnóstico: frames con un `type` desconocido o que no pasan la validación
+  public unknownMessages = this.unknownMessage$.asObservable();
+  public malformedMessages = this.malformedMessage$.asObservable();
+  public deltaResyncs = this.deltaResync$.asObservable();
   public tagReadResponse = this.tagReadResponse$.asObservable();
   public tagWriteResponse = this.tagWriteResponse$.asObservable();
 
-  constructor() {
+  constructor(
+    private mqttService: MqttService,
+    @Inject(TAG_TRANSPORT) private transport: TagTransport,
+    @Inject(TAG_TRANSPORT_CONFIG) config: TagTransportConfig,
+    gateways: GatewayService
+  ) {
+    this.subscriptionMode = config.subscriptionMode ?? 'delta';
+    this.connectionState$.subscribe(state => {
+      this.currentState = state;
+      this.updateHealth({ state });
+    });
+    this.startHealthTimer();
+    this.startConnection();
+
+    // Cambio de gateway: mismo servicio, nuevo backend
+    gateways.activeGateway.pipe(skip(1)).subscribe(gateway => {
+      const transportConfig = gateways.getTransportConfig(gateway);
+      this.useTransport(createTagTransport(transportConfig), transportConfig);
+    });
+  }
+
+  /**
+   * Cierra la conexión actual y conecta con otro transporte (cambio de gateway).
+   * Los tags suscritos se mantienen y se reenvían al abrir la nueva conexión;
+   * las peticiones correlacionadas en curso fallan en el acto con `gateway-changed`.
+   */
+  useTransport(transport: TagTransport, config: TagTransportConfig): void {
+    this.transportChanged$.next();
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = undefined;
+    }
+    this.stopPingInterval();
+    const previous = this.connection;
+    this.connection = undefined;
+    previous?.close();
+    this.connectionState$.next('disconnected');
+
+    this.transport = transport;
+    this.subscriptionMode = config.subscriptionMode ?? 'delta';
+    this.manuallyDisconnected = false;
+    this.reconnectAttempts = 0;
+    this.hasConnectedOnce = false;
+    this.messageTimes = [];
+    this.updateHealth({ rttMs: undefined, lastMessageAt: undefined, reconnectCount: 0, missedPongs: 0, stale: false });
+    this.startHealthTimer();
     this.startConnection();
   }
 
   private startConnection() {
-    const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
-    const wsUrl = `${protocol}//${window.location.host}/ws/plctag`;
-    
-    console.log(`🔌 Connecting to WebSocket: ${wsUrl}`);
+    console.log(`🔌 Connecting via ${this.transport.kind}: ${this.transport.description}`);
     this.connectionState$.next('connecting');
+    // Las líneas base son por conexión: el servidor manda un snapshot nuevo al resuscribir
+    this.baselines.clear();
+    this.pendingResyncs.clear();
+    this.deferredReads.clear();
 
     try {
-      this.websocket = new WebSocket(wsUrl);
-
-      this.websocket.onopen = () => {
-        console.log('✅ WebSocket connected');
-        this.connectionState$.next('connected');
-        this.reconnectAttempts = 0;
-        
-        // Enviar ping periódico para mantener la conexión viva
-        this.startPingInterval();
-      };
-
-      this.websocket.onmessage = (event) => {
-        try {
-          const message = JSON.parse(event.data);
-          this.handleMessage(message);
-        } catch (err) {
-          console.error('❌ Error parsing WebSocket message:', err);
+      const connection: TagTransportConnection = this.transport.open({
+        onOpen: () => {
+          if (this.connection !== connection) {
+            return;
+          }
+          console.log('✅ WebSocket connected');
+          this.updateHealth({
+            stale: false,
+            missedPongs: 0,
+            reconnectCount: this.health$.value.reconnectCount + (this.hasConnectedOnce ? 1 : 0)
+          });
+          this.hasConnectedOnce = true;
+          this.connectionState$.next('connected');
+          this.reconnectAttempts = 0;
+
+          // Enviar ping periódico para mantener la conexión viva
+          this.startPingInterval();
+          this.replaySubscriptions();
+        },
+        onMessage: (frame) => {
+          if (this.connection !== connection) {
+            return;
+          }
+          this.recordMessage();
+          this.handleFrame(frame);
+        },
+        onError: (error) => {
+          console.error('❌ WebSocket error:', error);
+          if (this.connection === connection) {
+            this.connectionState$.next('error');
+          }
+        },
+        onClose: () => {
+          // Ignorar el cierre de una conexión que ya fue reemplazada (reconnectNow)
+          if (this.connection !== connection) {
+            return;
+          }
+          console.log('🔴 WebSocket disconnected');
+          this.connection = undefined;
+          this.connectionState$.next('disconnected');
+          this.stopPingInterval();
+          this.attemptReconnect();
         }
-      };
-
-      this.websocket.onerror = (error) => {
-        console.error('❌ WebSocket error:', error);
-        this.connectionState$.next('error');
-      };
-
-      this.websocket.onclose = () => {
-        console.log('🔴 WebSocket disconnected');
-        this.connectionState$.next('disconnected');
-        this.stopPingInterval();
-        this.attemptReconnect();
-      };
+      });
+      this.connection = connection;
     } catch (err) {
       console.error('❌ Error creating WebSocket:', err);
       this.connectionState$.next('error');
@@ -92,63 +257,207 @@ export class WebSocketService {
     }
   }
 
-  private handleMessage(message: any) {
+  private handleFrame(frame: unknown) {
+    const result = typeof frame === 'string' ? decodeServerFrame(frame) : decodeServerMessage(frame);
+    const receivedAt = new Date().toISOString();
+
+    switch (result.kind) {
+      case 'message':
+        this.handleMessage(result.message);
+        break;
+      case 'unknown':
+        console.warn(`⚠️ Unknown WebSocket message type: ${result.type}`, result.raw);
+        this.unknownMessage$.next({ type: result.type, raw: result.raw, receivedAt });
+        break;
+      case 'malformed':
+        console.error(`❌ Malformed WebSocket message: ${result.reason}`, result.raw);
+        this.malformedMessage$.next({ reason: result.reason, raw: result.raw, receivedAt });
+        break;
+    }
+  }
+
+  private handleMessage(message: ServerMessage) {
     console.log('📥 WebSocket message received:', message);
-    
-    if (message.type === 'TagReadResponse') {
-      const tagResponse: TagReadResponse = {
-        tagName: message.tagName || '',
-        value: message.value,
-        quality: message.quality || '',
-        timestamp: message.timestamp || new Date().toISOString(),
-        correlationId: message.correlationId,
-        hasError: message.hasError || false,
-        errorMessage: message.errorMessage
-      };
-      console.log('   Converted TagReadResponse:', tagResponse);
-      this.tagReadResponse$.next(tagResponse);
-    } else if (message.type === 'TagWriteResponse') {
-      const writeResponse: TagWriteResponse = {
-        tagName: message.tagName || '',
-        path: message.path || '',
-        fullTagName: message.fullTagName || '',
-        value: message.value,
-        success: message.success || false,
-        timestamp: message.timestamp || new Date().toISOString(),
-        correlationId: message.correlationId,
-        errorMessage: message.errorMessage
-      };
-      this.tagWriteResponse$.next(writeResponse);
-    } else if (message.type === 'pong') {
-      // Respuesta al ping, conexión está viva
-      console.log('🏓 Received pong');
+
+    switch (message.type) {
+      case 'TagReadResponse': {
+        const { type, ...response } = message;
+        this.tagReadResponse$.next(response);
+        break;
+      }
+      case 'TagWriteResponse': {
+        const { type, ...response } = message;
+        this.tagWriteResponse$.next(response);
+        break;
+      }
+      case 'TagSnapshot':
+        this.handleSnapshot(message);
+        break;
+      case 'TagDelta':
+        this.handleDelta(message);
+        break;
+      case 'pong':
+        // Respuesta al ping, conexión está viva
+        this.handlePong(message.timestamp);
+        break;
+      case 'subscribed':
+      case 'unsubscribed':
+        this.subscriptionAck$.next(message);
+        break;
+      case 'error':
+        console.error(`❌ Server error${message.tagName ? ` (${message.tagName})` : ''}: ${message.message}`);
+        this.serverError$.next(message);
+        break;
+    }
+  }
+
+  private handleSnapshot(message: TagSnapshotMessage) {
+    this.baselines.set(message.tagName, { version: message.version, value: message.value });
+    this.pendingResyncs.delete(message.tagName);
+    this.emitBaseline(message);
+    // Quien esperaba una lectura descartada recibe el valor completo del snapshot
+    const deferred = this.deferredReads.get(message.tagName) ?? [];
+    this.deferredReads.delete(message.tagName);
+    deferred
+      .filter(correlationId => correlationId !== message.correlationId)
+      .forEach(correlationId => this.emitBaseline({ ...message, correlationId }));
+  }
+
+  private handleDelta(message: TagDeltaMessage) {
+    if (this.pendingResyncs.has(message.tagName)) {
+      this.deferRead(message);
+      return;
+    }
+
+    const baseline = this.baselines.get(message.tagName);
+    if (!baseline) {
+      this.deferRead(message);
+      this.requestResync(message.tagName, `Delta v${message.version} received without a baseline`);
+      return;
+    }
+    if (baseline.version !== message.baseVersion) {
+      this.deferRead(message);
+      this.requestResync(message.tagName,
+        `Delta based on v${message.baseVersion} but local baseline is v${baseline.version}`);
+      return;
+    }
+
+    try {
+      baseline.value = applyPatch(baseline.value, message.patch);
+      baseline.version = message.version;
+    } catch (err) {
+      if (err instanceof JsonPatchError) {
+        this.deferRead(message);
+        this.requestResync(message.tagName, `Patch could not be applied: ${err.message}`);
+        return;
+      }
+      throw err;
     }
+    this.emitBaseline(message);
+  }
+
+  /**
+   * Guarda el correlationId de un delta que no se pudo aplicar para no dejar
+   * que la lectura que lo pidió termine en timeout.
+   */
+  private deferRead(message: TagDeltaMessage) {
+    if (message.correlationId) {
+      this.deferredReads.set(message.tagName, [...this.deferredReads.get(message.tagName) ?? [], message.correlationId]);
+    }
+  }
+
+  /**
+   * Publica el valor reconstruido como una `TagReadResponse` normal, así los
+   * consumidores no distinguen entre el modo completo y el modo delta.
+   */
+  private emitBaseline(message: TagSnapshotMessage | TagDeltaMessage) {
+    const baseline = this.baselines.get(message.tagName);
+    this.tagReadResponse$.next({
+      tagName: message.tagName,
+      value: baseline?.value,
+      quality: message.quality,
+      timestamp: message.timestamp,
+      correlationId: message.correlationId,
+      hasError: false
+    });
+  }
+
+  /**
+   * Descarta la línea base y pide al servidor un snapshot nuevo: `resync`
+   * reinicia la versión y la lectura forzada hace que llegue ya.
+   */
+  private requestResync(tagName: string, reason: string) {
+    console.warn(`⚠️ Delta gap on ${tagName}: ${reason}. Requesting resync`);
+    this.baselines.delete(tagName);
+    this.pendingResyncs.add(tagName);
+    this.deltaResync$.next({ tagName, reason, requestedAt: new Date().toISOString() });
+    this.sendMessage({ type: 'resync', tagName });
+    this.sendReadRequest(tagName).subscribe({
+      error: (err) => console.error(`❌ Error requesting resync read for ${tagName}:`, err)
+    });
   }
 
   private attemptReconnect() {
-    if (this.reconnectAttempts >= this.maxReconnectAttempts) {
-      console.error(`❌ Max reconnect attempts (${this.maxReconnectAttempts}) reached`);
+    if (this.manuallyDisconnected || this.reconnectTimer) {
       return;
     }
 
     this.reconnectAttempts++;
-    const delay = this.reconnectDelay * this.reconnectAttempts;
+    const delay = this.getReconnectDelay(this.reconnectAttempts);
     
-    console.log(`🔄 Attempting to reconnect in ${delay}ms (attempt ${this.reconnectAttempts}/${this.maxReconnectAttempts})`);
+    console.log(`🔄 Attempting to reconnect in ${delay}ms (attempt ${this.reconnectAttempts})`);
+    this.reconnectSchedule$.next({ attempt: this.reconnectAttempts, delayMs: delay });
     
     this.reconnectTimer = window.setTimeout(() => {
+      this.reconnectTimer = undefined;
       this.startConnection();
     }, delay);
   }
 
+  /**
+   * Backoff exponencial con jitter: la mitad del retardo es fija y la otra
+   * mitad aleatoria, para que varios clientes no reconecten a la vez tras
+   * reiniciar el servidor.
+   */
+  private getReconnectDelay(attempt: number): number {
+    const exponential = Math.min(this.maxReconnectDelay, this.baseReconnectDelay * 2 ** (attempt - 1));
+    return Math.round(exponential / 2 + Math.random() * exponential / 2);
+  }
+
+  /**
+   * Cancela la espera del backoff y reconecta inmediatamente.
+   */
+  reconnectNow(): void {
+    this.manuallyDisconnected = false;
+    this.startHealthTimer();
+    this.reconnectAttempts = 0;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = undefined;
+    }
+    if (this.isConnected()) {
+      return;
+    }
+
+    this.stopPingInterval();
+    const previous = this.connection;
+    this.connection = undefined;
+    previous?.close();
+    this.startConnection();
+  }
+
+  private replaySubscriptions() {
+    this.subscribedTags.forEach(tagName => {
+      this.sendMessage({ type: 'subscribe', tagName, mode: this.subscriptionMode });
+      console.log(`🔁 Re-subscribed to tag: ${tagName}`);
+    });
+  }
+
   private pingInterval?: number;
   
   private startPingInterval() {
-    this.pingInterval = window.setInterval(() => {
-      if (this.websocket?.readyState === WebSocket.OPEN) {
-        this.sendMessage({ type: 'ping' });
-      }
-    }, 30000); // Ping cada 30 segundos
+    this.stopPingInterval();
+    this.pingInterval = window.setInterval(() => this.sendPing(), PING_INTERVAL_MS);
   }
 
   private stopPingInterval() {
@@ -156,22 +465,110 @@ export class WebSocketService {
       clearInterval(this.pingInterval);
       this.pingInterval = undefined;
     }
+    if (this.pongTimer) {
+      clearTimeout(this.pongTimer);
+      this.pongTimer = undefined;
+    }
+    this.pendingPingSentAt = undefined;
+  }
+
+  private sendPing() {
+    if (!this.isConnected() || this.pongTimer) {
+      return;
+    }
+    this.pendingPingSentAt = Date.now();
+    this.sendMessage({ type: 'ping', timestamp: this.pendingPingSentAt });
+    this.pongTimer = window.setTimeout(() => this.handleMissedPong(), PONG_TIMEOUT_MS);
+  }
+
+  private handlePong(echoedTimestamp?: number) {
+    const sentAt = echoedTimestamp ?? this.pendingPingSentAt;
+    if (this.pongTimer) {
+      clearTimeout(this.pongTimer);
+      this.pongTimer = undefined;
+    }
+    this.pendingPingSentAt = undefined;
+    this.updateHealth({
+      rttMs: sentAt !== undefined ? Date.now() - sentAt : this.health$.value.rttMs,
+      missedPongs: 0,
+      stale: false
+    });
+  }
+
+  private handleMissedPong() {
+    this.pongTimer = undefined;
+    this.pendingPingSentAt = undefined;
+    const missedPongs = this.health$.value.missedPongs + 1;
+    console.warn(`⚠️ No pong received (${missedPongs}/${MAX_MISSED_PONGS})`);
+
+    if (missedPongs < MAX_MISSED_PONGS) {
+      this.updateHealth({ missedPongs });
+      this.sendPing();
+      return;
+    }
+
+    // Socket half-open: el navegador lo cree abierto pero el servidor no responde.
+    // Se descarta sin esperar a onclose, que puede tardar minutos en llegar.
+    console.error('❌ WebSocket link is stale, forcing reconnect');
+    this.updateHealth({ missedPongs, stale: true });
+    this.stopPingInterval();
+    const staleConnection = this.connection;
+    this.connection = undefined;
+    staleConnection?.close();
+    this.connectionState$.next('disconnected');
+    this.attemptReconnect();
+  }
+
+  private startHealthTimer() {
+    // Recalcular la tasa de mensajes aunque no llegue tráfico
+    if (!this.healthTimer) {
+      this.healthTimer = window.setInterval(() => this.updateHealth({}), 1000);
+    }
+  }
+
+  private recordMessage() {
+    const now = Date.now();
+    this.messageTimes.push(now);
+    this.updateHealth({ lastMessageAt: new Date(now).toISOString() });
+  }
+
+  private updateHealth(changes: Partial<ConnectionHealth>) {
+    const cutoff = Date.now() - MESSAGE_RATE_WINDOW_MS;
+    while (this.messageTimes.length > 0 && this.messageTimes[0] < cutoff) {
+      this.messageTimes.shift();
+    }
+    this.health$.next({
+      ...this.health$.value,
+      ...changes,
+      messagesPerSecond: this.messageTimes.length / (MESSAGE_RATE_WINDOW_MS / 1000)
+    });
+  }
+
+  getHealth(): ConnectionHealth {
+    return this.health$.value;
   }
 
   subscribeToTag(tagName: string): void {
-    if (this.websocket?.readyState === WebSocket.OPEN) {
+    this.subscribedTags.add(tagName);
+    if (this.isConnected()) {
       this.sendMessage({
         type: 'subscribe',
-        tagName: tagName
+        tagName: tagName,
+        mode: this.subscriptionMode
       });
       console.log(`✅ Subscribed to tag: ${tagName}`);
     } else {
-      console.warn(`⚠️ Cannot subscribe to tag ${tagName}: WebSocket not connected`);
+      // Se enviará en replaySubscriptions cuando el socket abra
+      console.log(`⏳ Subscription to ${tagName} queued until WebSocket connects`);
     }
   }
 
   unsubscribeFromTag(tagName: string): void {
-    if (this.websocket?.readyState === WebSocket.OPEN) {
+    this.subscribedTags.delete(tagName);
+    this.baselines.delete(tagName);
+    this.pendingResyncs.delete(tagName);
+    this.deferredReads.delete(tagName);
+    if (this.isConnected()) {
       this.sendMessage({
         type: 'unsubscribe',
         tagName: tagName
@@ -180,44 +577,171 @@ export class WebSocketService {
     }
   }
 
-  private sendMessage(message: any): void {
-    if (this.websocket?.readyState === WebSocket.OPEN) {
-      this.websocket.send(JSON.stringify(message));
+  private sendMessage(message: ClientMessage): void {
+    if (this.connection?.isOpen()) {
+      this.connection.send(message);
     } else {
       console.warn('⚠️ Cannot send message: WebSocket not connected');
     }
   }
 
+  /**
+   * Lee un tag y emite la `TagReadResponse` que trae el mismo correlationId.
+   * Falla con `TagRequestError` si el PLC reporta error, si vence el timeout o
+   * si se cancela. Desuscribirse cancela la espera.
+   */
+  readTag(tagName: string, options: TagRequestOptions = {}): Observable<TagReadResponse> {
+    return this.correlate(tagName, 'read', this.tagReadResponse$, options,
+      correlationId => this.postReadRequest(tagName, correlationId),
+      response => response.hasError ? response.errorMessage || 'Error reading tag' : undefined);
+  }
+
+  /**
+   * Escribe un valor en `tagName.path` y emite la `TagWriteResponse` correlacionada
+   * cuando el PLC confirma la escritura.
+   */
+  writeTag(tagName: string, path: string, value: any, options: TagRequestOptions = {}): Observable<TagWriteResponse> {
+    return this.correlate(tagName, 'write', this.tagWriteResponse$, options,
+      correlationId => this.sendWriteRequest(tagName, path, value, correlationId),
+      response => response.success ? undefined : response.errorMessage || 'Error writing value');
+  }
+
+  /**
+   * Envía una petición de lectura sin esperar la respuesta; llegará por
+   * `tagReadResponse` a quien esté observando el tag. En modo delta el servidor
+   * no envía nada si el valor no cambió, salvo con `answerUnchanged`.
+   */
+  sendReadRequest(tagName: string, answerUnchanged: boolean = false): Observable<unknown> {
+    return this.postReadRequest(tagName, answerUnchanged ? this.createCorrelationId('read') : undefined);
+  }
+
+  /** Sin correlationId la lectura es un refresco que nadie espera. */
+  private postReadRequest(tagName: string, correlationId?: string): Observable<unknown> {
+    const request = correlationId ? { tagName, correlationId } : { tagName };
+    return this.transport.sendRequest
+      ? this.transport.sendRequest({ kind: 'read', request })
+      : this.mqttService.sendTagReadRequest(request);
+  }
+
+  private sendWriteRequest(tagName: string, path: string, value: any, correlationId: string): Observable<unknown> {
+    const request = { tagName, path, value, correlationId };
+    return this.transport.sendRequest
+      ? this.transport.sendRequest({ kind: 'write', request })
+      : this.mqttService.sendTagWriteRequest(request);
+  }
+
+  readTagAsync(tagName: string, options: TagRequestOptions = {}): Promise<TagReadResponse> {
+    return firstValueFrom(this.readTag(tagName, options));
+  }
+
+  writeTagAsync(tagName: string, path: string, value: any, options: TagRequestOptions = {}): Promise<TagWriteResponse> {
+    return firstValueFrom(this.writeTag(tagName, path, value, options));
+  }
+
+  private correlate<T extends { correlationId?: string }>(
+    tagName: string,
+    kind: 'read' | 'write',
+    responses$: Observable<T>,
+    options: TagRequestOptions,
+    send: (correlationId: string) => Observable<unknown>,
+    getError: (response: T) => string | undefined
+  ): Observable<T> {
+    return new Observable<T>(subscriber => {
+      const correlationId = this.createCorrelationId(kind);
+      const timeoutMs = options.timeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
+      const fail = (errorKind: TagRequestError['kind'], message: string, cause?: unknown) =>
+        subscriber.error(new TagRequestError(errorKind, message, tagName, correlationId, cause));
+
+      if (options.signal?.aborted) {
+        fail('cancelled', `Request for ${tagName} was cancelled`);
+        return;
+      }
+
+      if (!this.isConnected()) {
+        fail('disconnected', `Cannot ${kind} ${tagName}: WebSocket not connected`);
+        return;
+      }
+
+      // Escuchar la respuesta ANTES de enviar la petición para no perderla
+      const subscription = new Subscription();
+      subscription.add(this.transportChanged$.subscribe(() =>
+        fail('gateway-changed', `Gateway changed before the ${kind} response for ${tagName} arrived`)));
+      subscription.add(
+        responses$.pipe(
+          filter(response => response.correlationId === correlationId),
+          take(1)
+        ).subscribe(response => {
+          const errorMessage = getError(response);
+          if (errorMessage) {
+            fail('tag-error', errorMessage);
+          } else {
+            subscriber.next(response);
+            subscriber.complete();
+          }
+        })
+      );
+
+      subscription.add(
+        send(correlationId).subscribe({
+          error: (err) => fail('send-failed', describeError(err, `Error sending ${kind} request`), err)
+        })
+      );
+
+      const timer = window.setTimeout(
+        () => fail('timeout', `No ${kind} response for ${tagName} after ${timeoutMs}ms`),
+        timeoutMs
+      );
+      subscription.add(() => clearTimeout(timer));
+
+      if (options.signal) {
+        const onAbort = () => fail('cancelled', `Request for ${tagName} was cancelled`);
+        options.signal.addEventListener('abort', onAbort, { once: true });
+        subscription.add(() => options.signal?.removeEventListener('abort', onAbort));
+      }
+
+      return subscription;
+    });
+  }
+
+  private createCorrelationId(kind: 'read' | 'write'): string {
+    const random = typeof crypto !== 'undefined' && 'randomUUID' in crypto
+      ? crypto.randomUUID()
+      : Math.random().toString(36).slice(2);
+    return `${kind}-${random}`;
+  }
+
   getConnectionState(): WebSocketState {
-    if (!this.websocket) return 'disconnected';
-    
-    switch (this.websocket.readyState) {
-      case WebSocket.CONNECTING:
-        return 'connecting';
-      case WebSocket.OPEN:
-        return 'connected';
-      case WebSocket.CLOSING:
-      case WebSocket.CLOSED:
-        return 'disconnected';
-      default:
-        return 'error';
-    }
+    return this.currentState;
   }
 
   isConnected(): boolean {
-    return this.websocket?.readyState === WebSocket.OPEN;
+    return this.connection?.isOpen() ?? false;
+  }
+
+  getTransportKind(): TagTransport['kind'] {
+    return this.transport.kind;
+  }
+
+  getSubscribedTags(): string[] {
+    return Array.from(this.subscribedTags);
   }
 
   disconnect(): void {
+    this.manuallyDisconnected = true;
+    if (this.healthTimer) {
+      clearInterval(this.healthTimer);
+      this.healthTimer = undefined;
+    }
     if (this.reconnectTimer) {
       clearTimeout(this.reconnectTimer);
       this.reconnectTimer = undefined;
     }
     this.stopPingInterval();
-    if (this.websocket) {
-      this.websocket.close();
-      this.websocket = undefined;
+    if (this.connection) {
+      this.connection.close();
+      this.connection = undefined;
     }
+    this.connectionState$.next('disconnected');
   }
 }
 
@@ -0,0 +1,167 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject } from 'rxjs';
+import { GatewayService } from './gateway.service';
+import { DEFAULT_REFRESH, parseRefreshSettings, RefreshSettings } from './refresh-strategy';
+
+const STORAGE_PREFIX = 'plc-monitor.workspace.';
+
+export type WorkspaceLayout = 'tabs' | 'split';
+
+export type TagViewMode = 'graph' | 'tree';
+
+export interface WorkspacePane {
+  id: string;
+  tagName: string;
+  refresh: RefreshSettings;
+  view: TagViewMode;
+  /** Miembro a expandir y mostrar, p. ej. 'cavities[3].data' (deep link). */
+  focusPath?: string;
+}
+
+export interface OpenTagOptions {
+  path?: string;
+  view?: TagViewMode;
+}
+
+export interface WorkspaceState {
+  panes: WorkspacePane[];
+  activePaneId?: string;
+  layout: WorkspaceLayout;
+}
+
+const EMPTY_WORKSPACE: WorkspaceState = { panes: [], layout: 'tabs' };
+
+/**
+ * Tags abiertos en el workspace (como pestañas o paneles lado a lado) y su
+ * configuración. Se guarda por gateway en localStorage para restaurar el
+ * layout al recargar la página.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class WorkspaceService {
+  private state$ = new BehaviorSubject<WorkspaceState>(EMPTY_WORKSPACE);
+
+  public state = this.state$.asObservable();
+
+  constructor(private gateways: GatewayService) {
+    this.gateways.activeGateway.subscribe(() => this.state$.next(this.read()));
+  }
+
+  getState(): WorkspaceState {
+    return this.state$.value;
+  }
+
+  /**
+   * Abre el tag en un panel nuevo, o activa el suyo si ya estaba abierto.
+   * `options` (de un deep link) fija el miembro enfocado y el modo de vista.
+   */
+  open(tagName: string, options: OpenTagOptions = {}): void {
+    const state = this.state$.value;
+    const existing = state.panes.find(pane => pane.tagName === tagName);
+    if (existing) {
+      const pane = {
+        ...existing,
+        focusPath: options.path ?? existing.focusPath,
+        view: options.view ?? existing.view
+      };
+      this.update({
+        ...state,
+        panes: state.panes.map(p => p.id === existing.id ? pane : p),
+        activePaneId: existing.id
+      });
+      return;
+    }
+    const pane: WorkspacePane = {
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      tagName,
+      refresh: DEFAULT_REFRESH,
+      view: options.view ?? 'graph',
+      focusPath: options.path
+    };
+    this.update({ ...state, panes: [...state.panes, pane], activePaneId: pane.id });
+  }
+
+  close(paneId: string): void {
+    const state = this.state$.value;
+    const index = state.panes.findIndex(pane => pane.id === paneId);
+    if (index < 0) {
+      return;
+    }
+    const panes = state.panes.filter(pane => pane.id !== paneId);
+    // Al cerrar la pestaña activa se activa la vecina
+    const activePaneId = state.activePaneId === paneId
+      ? panes[Math.min(index, panes.length - 1)]?.id
+      : state.activePaneId;
+    this.update({ ...state, panes, activePaneId });
+  }
+
+  activate(paneId: string): void {
+    this.update({ ...this.state$.value, activePaneId: paneId });
+  }
+
+  setLayout(layout: WorkspaceLayout): void {
+    this.update({ ...this.state$.value, layout });
+  }
+
+  setRefresh(paneId: string, refresh: RefreshSettings): void {
+    this.updatePane(paneId, { refresh });
+  }
+
+  setView(paneId: string, view: TagViewMode): void {
+    this.updatePane(paneId, { view });
+  }
+
+  setFocusPath(paneId: string, focusPath: string): void {
+    this.updatePane(paneId, { focusPath: focusPath || undefined });
+  }
+
+  private updatePane(paneId: string, changes: Partial<WorkspacePane>) {
+    const state = this.state$.value;
+    this.update({
+      ...state,
+      panes: state.panes.map(pane => pane.id === paneId ? { ...pane, ...changes } : pane)
+    });
+  }
+
+  private update(state: WorkspaceState) {
+    this.state$.next(state);
+    try {
+      localStorage.setItem(this.storageKey(), JSON.stringify(state));
+    } catch (err) {
+      console.warn('⚠️ Could not persist workspace:', err);
+    }
+  }
+
+  private read(): WorkspaceState {
+    try {
+      const stored = JSON.parse(localStorage.getItem(this.storageKey()) ?? 'null');
+      if (!stored || !Array.isArray(stored.panes)) {
+        return EMPTY_WORKSPACE;
+      }
+      const panes: WorkspacePane[] = stored.panes
+        .filter((pane: any) => typeof pane?.id === 'string' && typeof pane?.tagName === 'string')
+        .map((pane: any) => ({
+          id: pane.id,
+          tagName: pane.tagName,
+          // Los workspaces guardados antes de los modos de refresco solo tenían autoRefresh
+          refresh: pane.refresh
+            ? parseRefreshSettings(pane.refresh)
+            : { ...DEFAULT_REFRESH, mode: pane.autoRefresh === false ? 'push' : 'polling' },
+          view: pane.view === 'tree' ? 'tree' : 'graph',
+          focusPath: typeof pane.focusPath === 'string' ? pane.focusPath : undefined
+        }));
+      return {
+        panes,
+        activePaneId: panes.some(pane => pane.id === stored.activePaneId) ? stored.activePaneId : panes[0]?.id,
+        layout: stored.layout === 'split' ? 'split' : 'tabs'
+      };
+    } catch {
+      return EMPTY_WORKSPACE;
+    }
+  }
+
+  private storageKey(): string {
+    return STORAGE_PREFIX + this.gateways.getActiveGateway().id;
+  }
+}
@@ -1,9 +1,22 @@
 import { bootstrapApplication } from '@angular/platform-browser';
 import { AppComponent } from './app/app.component';
-import { provideHttpClient } from '@angular/common/http';
+import { provideHttpClient, withInterceptors } from '@angular/common/http';
+import { inject } from '@angular/core';
+import { provideRouter } from '@angular/router';
+import { APP_CONFIG, loadAppConfig } from './app/app-config';
+import { GatewayService } from './app/gateway.service';
+import { apiErrorInterceptor } from './app/api-error.interceptor';
+import { routes } from './app/app.routes';
+import { TAG_TRANSPORT_CONFIG } from './app/tag-transport';
 
-bootstrapApplication(AppComponent, {
-  providers: [
-    provideHttpClient()
-  ]
-}).catch(err => console.error(err));
+// config.json se lee antes de arrancar: define a qué backend(s) se conecta el SPA
+loadAppConfig().then(config =>
+  bootstrapApplication(AppComponent, {
+    providers: [
+      provideHttpClient(withInterceptors([apiErrorInterceptor])),
+      provideRouter(routes),
+      { provide: APP_CONFIG, useValue: config },
+      { provide: TAG_TRANSPORT_CONFIG, useFactory: () => inject(GatewayService).getTransportConfig() }
+    ]
+  })
+).catch(err => console.error(err));